@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getShareRepository } from "@/lib/scenario-repository";
+import { notFound } from "@/app/api/responses";
+
+// Public: middleware lets /api/public through without a session.
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const share = await getShareRepository().get(id);
+  if (!share) return notFound();
+
+  return NextResponse.json({ share }, { headers: { "Cache-Control": "no-store" } });
+}
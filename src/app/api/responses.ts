@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+export function errorResponse(message: string, status: number): NextResponse {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export const unauthorized = () => errorResponse("Sign in to use saved scenarios", 401);
+
+export const notFound = () => errorResponse("Scenario not found", 404);
+
+// Returns a 400 response instead of the value when the body is not JSON or does
+// not parse, so handlers can hand it straight back.
+export async function readJsonBody<T>(
+  request: Request,
+  parse: (value: unknown) => T
+): Promise<T | NextResponse> {
+  try {
+    return parse(await request.json());
+  } catch (error) {
+    const message = error instanceof SyntaxError ? "Request body must be JSON" : null;
+    return errorResponse(message ?? (error as Error).message, 400);
+  }
+}
@@ -0,0 +1,39 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getScenarioRepository } from "@/lib/scenario-repository";
+import { parseScenarioInput } from "@/lib/scenarios";
+import { notFound, readJsonBody, unauthorized } from "@/app/api/responses";
+
+interface ScenarioRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: ScenarioRouteContext) {
+  const { userId } = await auth();
+  if (!userId) return unauthorized();
+
+  const { id } = await params;
+  const scenario = await getScenarioRepository().get(userId, id);
+  return scenario ? NextResponse.json({ scenario }) : notFound();
+}
+
+export async function PUT(request: Request, { params }: ScenarioRouteContext) {
+  const { userId } = await auth();
+  if (!userId) return unauthorized();
+
+  const input = await readJsonBody(request, parseScenarioInput);
+  if (input instanceof NextResponse) return input;
+
+  const { id } = await params;
+  const scenario = await getScenarioRepository().update(userId, id, input);
+  return scenario ? NextResponse.json({ scenario }) : notFound();
+}
+
+export async function DELETE(_request: Request, { params }: ScenarioRouteContext) {
+  const { userId } = await auth();
+  if (!userId) return unauthorized();
+
+  const { id } = await params;
+  const deleted = await getScenarioRepository().delete(userId, id);
+  return deleted ? new NextResponse(null, { status: 204 }) : notFound();
+}
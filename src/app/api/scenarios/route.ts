@@ -0,0 +1,30 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getScenarioRepository } from "@/lib/scenario-repository";
+import { MAX_SCENARIOS_PER_USER, parseScenarioInput } from "@/lib/scenarios";
+import { errorResponse, readJsonBody, unauthorized } from "@/app/api/responses";
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return unauthorized();
+
+  const scenarios = await getScenarioRepository().list(userId);
+  return NextResponse.json({ scenarios });
+}
+
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) return unauthorized();
+
+  const input = await readJsonBody(request, parseScenarioInput);
+  if (input instanceof NextResponse) return input;
+
+  const scenario = await getScenarioRepository().create(userId, input);
+  if (!scenario) {
+    return errorResponse(
+      `Accounts are limited to ${MAX_SCENARIOS_PER_USER} saved scenarios; delete one first`,
+      409
+    );
+  }
+  return NextResponse.json({ scenario }, { status: 201 });
+}
@@ -0,0 +1,21 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getShareRepository } from "@/lib/scenario-repository";
+import { MAX_SHARES_PER_USER, parseShareRequest } from "@/lib/scenarios";
+import { errorResponse, readJsonBody, unauthorized } from "@/app/api/responses";
+
+// Publishes a snapshot of the posted scenario, readable by anyone with the id
+// through /api/public/scenarios/[id].
+export async function POST(request: Request) {
+  const { userId } = await auth();
+  if (!userId) return unauthorized();
+
+  const body = await readJsonBody(request, parseShareRequest);
+  if (body instanceof NextResponse) return body;
+
+  const share = await getShareRepository().create(userId, body.scenario, body.expiresInDays);
+  if (!share) {
+    return errorResponse(`Accounts are limited to ${MAX_SHARES_PER_USER} live share links`, 409);
+  }
+  return NextResponse.json({ share }, { status: 201 });
+}
@@ -14,8 +14,8 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "San Francisco Sea Level Rise Visualization",
-  description: "Interactive flood visualization tool for San Francisco",
+  title: "Sea Level Rise Flood Storyboard",
+  description: "Interactive coastal flood visualization tool",
 };
 
 export default function RootLayout({
@@ -1,5 +1,9 @@
 import { MapContainer } from "@/components/Map/MapContainer";
 import { WaterLevelSlider } from "@/components/ui/WaterLevelSlider";
+import { BarrierPanel } from "@/components/ui/BarrierPanel";
+import { ScenarioPanel } from "@/components/ui/ScenarioPanel";
+import { RegionSwitcher } from "@/components/ui/RegionSwitcher";
+import { FrameLegend } from "@/components/ui/FrameLegend";
 import { UserButton } from "@clerk/nextjs";
 
 export default function Home() {
@@ -12,12 +16,12 @@ export default function Home() {
       </div>
 
       <div className="absolute top-3 right-12 z-10">
-        <div className="rounded-lg bg-black/70 px-4 py-3 text-white shadow-lg backdrop-blur-sm">
-          <h1 className="text-xl font-bold">San Francisco Flood Storyboard</h1>
-          <p className="text-sm text-slate-300">
-            Ocean-connected 3D water plane for cinematic scouting
-          </p>
-        </div>
+        <RegionSwitcher />
+      </div>
+
+      <div className="absolute top-28 right-12 z-10 space-y-4">
+        <BarrierPanel />
+        <ScenarioPanel />
       </div>
 
       <div className="absolute bottom-4 right-4 z-10">
@@ -33,27 +37,7 @@ export default function Home() {
       </div>
 
       <div className="absolute bottom-16 left-4 z-10">
-        <div className="rounded-lg bg-black/70 px-4 py-3 text-white shadow-lg backdrop-blur-sm">
-          <h3 className="mb-2 text-sm font-semibold">Reading the frame</h3>
-          <div className="space-y-1 text-xs text-slate-200">
-            <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded bg-sky-400"></div>
-              <span>Water plane = connected ocean reach only</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded bg-slate-300"></div>
-              <span>Buildings stay solid for skyline silhouette checks</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded bg-emerald-400"></div>
-              <span>Hover terrain/buildings to inspect clearance</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="h-3 w-3 rounded bg-amber-300"></div>
-              <span>Best used with a low pitch and rotated street approach</span>
-            </div>
-          </div>
-        </div>
+        <FrameLegend />
       </div>
     </div>
   );
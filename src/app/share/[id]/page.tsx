@@ -0,0 +1,46 @@
+import { notFound } from "next/navigation";
+import { MapContainer } from "@/components/Map/MapContainer";
+import { FrameLegend } from "@/components/ui/FrameLegend";
+import { getShareRepository } from "@/lib/scenario-repository";
+import { getRegion } from "@/lib/regions";
+import { formatLength } from "@/lib/units";
+
+export default async function SharedScenarioPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const share = await getShareRepository().get(id);
+  if (!share) notFound();
+
+  const { scenario } = share;
+
+  return (
+    <div className="relative h-screen w-full overflow-hidden">
+      <MapContainer sharedScenario={scenario} />
+
+      <div className="absolute top-4 left-4 z-10 w-80 space-y-1 rounded-lg bg-black/70 p-4 text-white shadow-lg backdrop-blur-sm">
+        <div className="text-xs uppercase tracking-wide text-slate-400">Shared scenario</div>
+        <h1 className="text-lg font-semibold">{scenario.name}</h1>
+        <div className="text-sm text-slate-200">
+          {getRegion(scenario.regionId).displayName} · +
+          {formatLength(scenario.waterLevel, "metric")} water level
+          {scenario.barriers.length > 0 && ` · ${scenario.barriers.length} barriers`}
+        </div>
+        {scenario.notes && (
+          <p className="whitespace-pre-wrap pt-1 text-sm text-slate-300">{scenario.notes}</p>
+        )}
+        {share.expiresAt && (
+          <div className="pt-1 text-xs text-slate-400">
+            Link expires {new Date(share.expiresAt).toUTCString()}
+          </div>
+        )}
+      </div>
+
+      <div className="absolute bottom-16 left-4 z-10">
+        <FrameLegend />
+      </div>
+    </div>
+  );
+}
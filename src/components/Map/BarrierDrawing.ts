@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import mapboxgl from "mapbox-gl";
+import type { Feature, FeatureCollection, LineString } from "geojson";
+import { useStore } from "@/lib/store";
+import { DEFAULT_BARRIER_CREST_HEIGHT, type FloodBarrier } from "./FloodBarriers";
+
+const BARRIER_SOURCE_ID = "flood-barriers";
+const BARRIER_LINE_LAYER_ID = "flood-barriers-line";
+const BARRIER_DRAFT_LAYER_ID = "flood-barriers-draft";
+
+function toFeatureCollection(
+  barriers: FloodBarrier[],
+  draft: Array<[number, number]>
+): FeatureCollection<LineString> {
+  const features: Array<Feature<LineString>> = barriers.map((barrier) => ({
+    type: "Feature",
+    id: barrier.id,
+    properties: {
+      name: barrier.name,
+      crestHeight: barrier.crestHeight,
+      draft: false,
+    },
+    geometry: {
+      type: "LineString",
+      coordinates: barrier.coordinates,
+    },
+  }));
+
+  if (draft.length > 0) {
+    features.push({
+      type: "Feature",
+      properties: { draft: true },
+      geometry: {
+        type: "LineString",
+        coordinates: draft.length === 1 ? [draft[0], draft[0]] : draft,
+      },
+    });
+  }
+
+  return { type: "FeatureCollection", features };
+}
+
+export function useBarrierDrawing(map: mapboxgl.Map | null, enabled: boolean) {
+  const barriers = useStore((state) => state.barriers);
+  const isDrawing = useStore((state) => state.isDrawingBarrier);
+  const addBarrier = useStore((state) => state.addBarrier);
+  const setIsDrawingBarrier = useStore((state) => state.setIsDrawingBarrier);
+  const [draft, setDraft] = useState<Array<[number, number]>>([]);
+  const draftRef = useRef<Array<[number, number]>>([]);
+
+  useEffect(() => {
+    if (!map || !enabled || map.getSource(BARRIER_SOURCE_ID)) return;
+
+    map.addSource(BARRIER_SOURCE_ID, {
+      type: "geojson",
+      data: toFeatureCollection([], []),
+    });
+
+    map.addLayer({
+      id: BARRIER_LINE_LAYER_ID,
+      type: "line",
+      source: BARRIER_SOURCE_ID,
+      filter: ["==", ["get", "draft"], false],
+      layout: {
+        "line-cap": "round",
+        "line-join": "round",
+      },
+      paint: {
+        "line-color": "#fbbf24",
+        "line-width": 4,
+      },
+    });
+
+    map.addLayer({
+      id: BARRIER_DRAFT_LAYER_ID,
+      type: "line",
+      source: BARRIER_SOURCE_ID,
+      filter: ["==", ["get", "draft"], true],
+      paint: {
+        "line-color": "#fde68a",
+        "line-width": 3,
+        "line-dasharray": [2, 1],
+      },
+    });
+  }, [enabled, map]);
+
+  useEffect(() => {
+    if (!map || !enabled) return;
+
+    const source = map.getSource(BARRIER_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(toFeatureCollection(barriers, draft));
+  }, [barriers, draft, enabled, map]);
+
+  useEffect(() => {
+    if (!map || !enabled || !isDrawing) return;
+
+    const canvas = map.getCanvas();
+    const previousCursor = canvas.style.cursor;
+
+    const updateDraft = (next: Array<[number, number]>) => {
+      draftRef.current = next;
+      setDraft(next);
+    };
+
+    const finishBarrier = () => {
+      const coordinates = draftRef.current;
+
+      if (coordinates.length >= 2) {
+        addBarrier({
+          id: crypto.randomUUID(),
+          name: `Barrier ${useStore.getState().barriers.length + 1}`,
+          crestHeight: DEFAULT_BARRIER_CREST_HEIGHT,
+          coordinates,
+        });
+      }
+
+      updateDraft([]);
+      setIsDrawingBarrier(false);
+    };
+
+    const handleClick = (event: mapboxgl.MapMouseEvent) => {
+      const point: [number, number] = [event.lngLat.lng, event.lngLat.lat];
+      const last = draftRef.current[draftRef.current.length - 1];
+
+      if (last && last[0] === point[0] && last[1] === point[1]) return;
+
+      updateDraft([...draftRef.current, point]);
+    };
+
+    const handleDoubleClick = (event: mapboxgl.MapMouseEvent) => {
+      event.preventDefault();
+      finishBarrier();
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        updateDraft([]);
+        setIsDrawingBarrier(false);
+      } else if (event.key === "Enter") {
+        finishBarrier();
+      }
+    };
+
+    canvas.style.cursor = "crosshair";
+    map.doubleClickZoom.disable();
+    map.on("click", handleClick);
+    map.on("dblclick", handleDoubleClick);
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      canvas.style.cursor = previousCursor;
+      map.doubleClickZoom.enable();
+      map.off("click", handleClick);
+      map.off("dblclick", handleDoubleClick);
+      window.removeEventListener("keydown", handleKeyDown);
+      updateDraft([]);
+    };
+  }, [addBarrier, enabled, isDrawing, map, setIsDrawingBarrier]);
+}
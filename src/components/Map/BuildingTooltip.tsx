@@ -2,6 +2,9 @@
 
 import { useEffect, useRef, useState } from "react";
 import mapboxgl from "mapbox-gl";
+import type { MultiPolygon, Polygon } from "geojson";
+import { formatLength, type UnitSystem } from "@/lib/units";
+import type { ElevationStats } from "./ElevationUtils";
 
 interface BuildingData {
   height?: number;
@@ -13,23 +16,27 @@ interface BuildingData {
   lat?: number;
   lng?: number;
   groundElevation?: number;
+  groundMin?: number;
+  groundMax?: number;
 }
 
 interface BuildingTooltipProps {
   buildingData: BuildingData | null;
   waterLevel: number;
+  units: UnitSystem;
 }
 
 function getFloodStatus(
   buildingHeight: number,
   waterLevel: number,
-  groundElevation: number = 0
+  groundElevation: number,
+  units: UnitSystem
 ): string {
   const depth = waterLevel - groundElevation;
   if (depth <= 0) return "Above water";
 
   if (!buildingHeight) {
-    return `${depth.toFixed(1)}m water depth at grade`;
+    return `${formatLength(depth, units)} water depth at grade`;
   }
 
   const totalFloors = Math.max(1, Math.floor(buildingHeight / 3));
@@ -40,7 +47,7 @@ function getFloodStatus(
   }
 
   if (floodedFloors <= 0) {
-    return `${depth.toFixed(1)}m at street level`;
+    return `${formatLength(depth, units)} at street level`;
   }
 
   return `${floodedFloors}/${totalFloors} floors underwater`;
@@ -63,7 +70,7 @@ function getStatusColor(
   return "text-amber-300";
 }
 
-export function BuildingTooltip({ buildingData, waterLevel }: BuildingTooltipProps) {
+export function BuildingTooltip({ buildingData, waterLevel, units }: BuildingTooltipProps) {
   if (!buildingData) return null;
 
   return (
@@ -87,13 +94,22 @@ export function BuildingTooltip({ buildingData, waterLevel }: BuildingTooltipPro
         )}
         {buildingData.height !== undefined && (
           <div className="text-xs text-slate-300">
-            🏢 Height {buildingData.height.toFixed(0)}m (~
+            🏢 Height {formatLength(buildingData.height, units, 0)} (~
             {Math.max(1, Math.floor(buildingData.height / 3))} floors)
           </div>
         )}
         {buildingData.groundElevation !== undefined && (
           <div className="text-xs text-slate-300">
-            ⛰️ Ground {buildingData.groundElevation.toFixed(1)}m
+            ⛰️ Ground {formatLength(buildingData.groundElevation, units)}
+            {buildingData.groundMin !== undefined &&
+              buildingData.groundMax !== undefined &&
+              buildingData.groundMax - buildingData.groundMin >= 0.1 && (
+                <span className="text-slate-400">
+                  {" "}
+                  ({formatLength(buildingData.groundMin, units)}–
+                  {formatLength(buildingData.groundMax, units)})
+                </span>
+              )}
           </div>
         )}
         {buildingData.type && (
@@ -110,12 +126,14 @@ export function BuildingTooltip({ buildingData, waterLevel }: BuildingTooltipPro
             💧 {getFloodStatus(
               buildingData.height || 0,
               waterLevel,
-              buildingData.groundElevation || 0
+              buildingData.groundElevation || 0,
+              units
             )}
           </div>
           {buildingData.groundElevation !== undefined && (
             <div className="text-xs text-slate-400">
-              Water at grade: {Math.max(0, waterLevel - buildingData.groundElevation).toFixed(1)}m
+              Water at grade:{" "}
+              {formatLength(Math.max(0, waterLevel - buildingData.groundElevation), units)}
             </div>
           )}
         </div>
@@ -126,7 +144,7 @@ export function BuildingTooltip({ buildingData, waterLevel }: BuildingTooltipPro
 
 export function useBuildingTooltip(
   map: mapboxgl.Map | null,
-  getGroundElevation: (lng: number, lat: number) => number | null,
+  getFootprintElevation: (geometry: Polygon | MultiPolygon) => ElevationStats | null,
   disabled: boolean = false
 ) {
   const [buildingData, setBuildingData] = useState<BuildingData | null>(null);
@@ -162,7 +180,10 @@ export function useBuildingTooltip(
 
       const feature = features[0];
       const properties = feature.properties ?? {};
-      const groundElevation = getGroundElevation(event.lngLat.lng, event.lngLat.lat) ?? 0;
+      const footprint =
+        feature.geometry.type === "Polygon" || feature.geometry.type === "MultiPolygon"
+          ? getFootprintElevation(feature.geometry)
+          : null;
 
       setBuildingData({
         height: Number(
@@ -186,7 +207,9 @@ export function useBuildingTooltip(
         y: event.point.y,
         lat: event.lngLat.lat,
         lng: event.lngLat.lng,
-        groundElevation,
+        groundElevation: footprint?.mean ?? 0,
+        groundMin: footprint?.min,
+        groundMax: footprint?.max,
       });
     };
 
@@ -225,7 +248,7 @@ export function useBuildingTooltip(
       map.off("mousemove", handleMouseMove);
       map.off("mouseleave", "3d-buildings", handleMouseLeave);
     };
-  }, [getGroundElevation, map]);
+  }, [getFootprintElevation, map]);
 
   useEffect(() => {
     disabledRef.current = disabled;
@@ -0,0 +1,122 @@
+import type { RegionCamera } from "@/lib/regions";
+
+export type TimelineEasing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+export const TIMELINE_EASINGS: TimelineEasing[] = ["linear", "ease-in", "ease-out", "ease-in-out"];
+export const MAX_TIMELINE_PITCH = 85;
+
+export interface TimelineKeyframe {
+  id: string;
+  // Cameras are in one city's coordinates, so a keyframe only plays there.
+  regionId: string;
+  // Seconds from the start of the timeline.
+  time: number;
+  camera: RegionCamera;
+  waterLevel: number;
+  // Shapes the segment that leaves this keyframe.
+  easing: TimelineEasing;
+}
+
+export interface TimelineSample {
+  camera: RegionCamera;
+  waterLevel: number;
+}
+
+export function applyEasing(easing: TimelineEasing, t: number): number {
+  switch (easing) {
+    case "ease-in":
+      return t * t * t;
+    case "ease-out":
+      return 1 - (1 - t) ** 3;
+    case "ease-in-out":
+      return t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+    default:
+      return t;
+  }
+}
+
+export function sortKeyframes(keyframes: TimelineKeyframe[]): TimelineKeyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+export function getTimelineDuration(keyframes: TimelineKeyframe[]): number {
+  return keyframes.reduce((duration, keyframe) => Math.max(duration, keyframe.time), 0);
+}
+
+// Bearings are unwrapped so each step takes the short way round and the
+// spline never sees a 359° → 0° jump.
+function unwrapBearings(bearings: number[]): number[] {
+  const unwrapped = bearings.slice(0, 1);
+  for (let i = 1; i < bearings.length; i += 1) {
+    const delta = ((((bearings[i] - bearings[i - 1]) % 360) + 540) % 360) - 180;
+    unwrapped.push(unwrapped[i - 1] + delta);
+  }
+  return unwrapped;
+}
+
+// Catmull-Rom tangents over uneven keyframe times; the ends get zero slope so
+// the camera starts and stops gently.
+function getTangent(values: number[], times: number[], index: number): number {
+  if (index === 0 || index === values.length - 1) return 0;
+
+  const span = times[index + 1] - times[index - 1];
+  return span > 0 ? (values[index + 1] - values[index - 1]) / span : 0;
+}
+
+function hermite(values: number[], times: number[], index: number, t: number): number {
+  const span = times[index + 1] - times[index];
+  const t2 = t * t;
+  const t3 = t2 * t;
+
+  return (
+    (2 * t3 - 3 * t2 + 1) * values[index] +
+    (t3 - 2 * t2 + t) * span * getTangent(values, times, index) +
+    (-2 * t3 + 3 * t2) * values[index + 1] +
+    (t3 - t2) * span * getTangent(values, times, index + 1)
+  );
+}
+
+// Expects keyframes sorted by time.
+export function sampleTimeline(
+  keyframes: TimelineKeyframe[],
+  time: number
+): TimelineSample | null {
+  if (keyframes.length === 0) return null;
+
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (keyframes.length === 1 || time <= first.time) {
+    return { camera: first.camera, waterLevel: first.waterLevel };
+  }
+  if (time >= last.time) {
+    return { camera: last.camera, waterLevel: last.waterLevel };
+  }
+
+  let index = 0;
+  while (index < keyframes.length - 2 && time >= keyframes[index + 1].time) {
+    index += 1;
+  }
+
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  const span = to.time - from.time;
+  const t = applyEasing(from.easing, span > 0 ? (time - from.time) / span : 1);
+
+  const times = keyframes.map((keyframe) => keyframe.time);
+  const channel = (values: number[]) => hermite(values, times, index, t);
+  const pitch = channel(keyframes.map((keyframe) => keyframe.camera.pitch));
+
+  return {
+    camera: {
+      center: [
+        channel(keyframes.map((keyframe) => keyframe.camera.center[0])),
+        channel(keyframes.map((keyframe) => keyframe.camera.center[1])),
+      ],
+      zoom: channel(keyframes.map((keyframe) => keyframe.camera.zoom)),
+      pitch: Math.min(Math.max(pitch, 0), MAX_TIMELINE_PITCH),
+      bearing: channel(unwrapBearings(keyframes.map((keyframe) => keyframe.camera.bearing))),
+    },
+    // Levels are eased but not splined, so the water never overshoots a keyframe.
+    waterLevel: from.waterLevel + (to.waterLevel - from.waterLevel) * t,
+  };
+}
@@ -21,8 +21,11 @@ const fragmentShaderSource = `#version 300 es
 precision highp float;
 
 uniform sampler2D u_mask;
+uniform sampler2D u_depth;
 uniform float u_time;
 uniform float u_waterLevel;
+uniform vec2 u_levelRange;
+uniform vec4 u_cutout;
 
 in vec2 v_uv;
 out vec4 outColor;
@@ -33,20 +36,30 @@ float ripple(vec2 uv, float time) {
 }
 
 void main() {
+  if (all(greaterThan(v_uv, u_cutout.xy)) && all(lessThan(v_uv, u_cutout.zw))) {
+    discard;
+  }
+
   float mask = texture(u_mask, v_uv).r;
   if (mask < 0.08) {
     discard;
   }
 
+  float depth = texture(u_depth, v_uv).r;
   float edge = smoothstep(0.08, 0.45, mask);
   float wave = ripple(v_uv, u_time);
   vec3 deepWater = vec3(0.04, 0.16, 0.32);
   vec3 shallowWater = vec3(0.18, 0.42, 0.73);
-  float cinematicBlend = clamp((u_waterLevel - 25.0) / 50.0, 0.0, 1.0);
-  vec3 waterColor = mix(shallowWater, deepWater, 0.55 + cinematicBlend * 0.3);
+  float cinematicBlend = clamp(
+    (u_waterLevel - u_levelRange.x) / max(u_levelRange.y - u_levelRange.x, 1.0),
+    0.0,
+    1.0
+  );
+  float depthBlend = smoothstep(0.0, 30.0, depth);
+  vec3 waterColor = mix(shallowWater, deepWater, depthBlend * 0.85 + cinematicBlend * 0.15);
   waterColor += vec3(wave * 0.8);
 
-  float alpha = mix(0.52, 0.82, edge);
+  float alpha = mix(0.52, 0.82, edge) * mix(0.7, 1.0, smoothstep(0.0, 2.0, depth));
   outColor = vec4(waterColor, alpha);
 }
 `;
@@ -56,12 +69,16 @@ interface LayerResources {
   vertexBuffer: WebGLBuffer;
   indexBuffer: WebGLBuffer;
   maskTexture: WebGLTexture;
+  depthTexture: WebGLTexture;
   positionLocation: number;
   uvLocation: number;
   matrixLocation: WebGLUniformLocation;
   timeLocation: WebGLUniformLocation;
   waterLevelLocation: WebGLUniformLocation;
+  levelRangeLocation: WebGLUniformLocation;
+  cutoutLocation: WebGLUniformLocation;
   maskLocation: WebGLUniformLocation;
+  depthLocation: WebGLUniformLocation;
 }
 
 function compileShader(
@@ -115,20 +132,32 @@ function createProgram(gl: WebGL2RenderingContext): LayerResources {
   const vertexBuffer = gl.createBuffer();
   const indexBuffer = gl.createBuffer();
   const maskTexture = gl.createTexture();
+  const depthTexture = gl.createTexture();
 
-  if (!vertexBuffer || !indexBuffer || !maskTexture) {
+  if (!vertexBuffer || !indexBuffer || !maskTexture || !depthTexture) {
     throw new Error("Failed to allocate connected water layer resources");
   }
 
   const matrixLocation = gl.getUniformLocation(program, "u_matrix");
   const timeLocation = gl.getUniformLocation(program, "u_time");
   const waterLevelLocation = gl.getUniformLocation(program, "u_waterLevel");
+  const levelRangeLocation = gl.getUniformLocation(program, "u_levelRange");
+  const cutoutLocation = gl.getUniformLocation(program, "u_cutout");
   const maskLocation = gl.getUniformLocation(program, "u_mask");
+  const depthLocation = gl.getUniformLocation(program, "u_depth");
 
   const positionLocation = gl.getAttribLocation(program, "a_position");
   const uvLocation = gl.getAttribLocation(program, "a_uv");
 
-  if (!matrixLocation || !timeLocation || !waterLevelLocation || !maskLocation) {
+  if (
+    !matrixLocation ||
+    !timeLocation ||
+    !waterLevelLocation ||
+    !levelRangeLocation ||
+    !cutoutLocation ||
+    !maskLocation ||
+    !depthLocation
+  ) {
     throw new Error("Failed to resolve connected water uniforms");
   }
 
@@ -137,36 +166,58 @@ function createProgram(gl: WebGL2RenderingContext): LayerResources {
     vertexBuffer,
     indexBuffer,
     maskTexture,
+    depthTexture,
     positionLocation,
     uvLocation,
     matrixLocation,
     timeLocation,
     waterLevelLocation,
+    levelRangeLocation,
+    cutoutLocation,
     maskLocation,
+    depthLocation,
   };
 }
 
+const NO_CUTOUT: [number, number, number, number] = [2, 2, 2, 2];
+
+interface WaterMask {
+  mask: Uint8Array;
+  width: number;
+  height: number;
+  depth: Float32Array;
+}
+
 export class ConnectedWaterLayer implements mapboxgl.CustomLayerInterface {
-  readonly id = "connected-water-layer";
+  readonly id: string;
   readonly type = "custom" as const;
   readonly renderingMode = "3d" as const;
 
   private readonly resolution: number;
   private readonly bounds: BoundsLike;
+  private readonly levelRange: [number, number];
   private waterLevel: number;
+  private cutout = NO_CUTOUT;
   private map: mapboxgl.Map | null = null;
   private gl: WebGL2RenderingContext | null = null;
   private resources: LayerResources | null = null;
   private vertices = new Float32Array();
   private indices = new Uint16Array();
   private indexCount = 0;
-  private maskWidth = 0;
-  private maskHeight = 0;
-
-  constructor(bounds: BoundsLike, waterLevel: number, resolution: number = 64) {
+  private waterMask: WaterMask | null = null;
+
+  constructor(
+    bounds: BoundsLike,
+    waterLevel: number,
+    resolution: number = 64,
+    levelRange: [number, number] = [25, 75],
+    id: string = "connected-water-layer"
+  ) {
+    this.id = id;
     this.bounds = bounds;
     this.waterLevel = waterLevel;
     this.resolution = resolution;
+    this.levelRange = levelRange;
   }
 
   onAdd = (map: mapboxgl.Map, gl: WebGL2RenderingContext): void => {
@@ -175,7 +226,14 @@ export class ConnectedWaterLayer implements mapboxgl.CustomLayerInterface {
     this.resources = createProgram(gl);
     this.rebuildMesh();
     this.uploadGeometry();
-    this.updateMask(new Uint8Array([0]), 1, 1);
+    this.uploadMask(
+      this.waterMask ?? {
+        mask: new Uint8Array([0]),
+        width: 1,
+        height: 1,
+        depth: new Float32Array([0]),
+      }
+    );
   };
 
   render = (gl: WebGL2RenderingContext, matrix: Array<number>): void => {
@@ -209,11 +267,18 @@ export class ConnectedWaterLayer implements mapboxgl.CustomLayerInterface {
     gl.uniformMatrix4fv(this.resources.matrixLocation, false, matrix);
     gl.uniform1f(this.resources.timeLocation, performance.now() / 1000);
     gl.uniform1f(this.resources.waterLevelLocation, this.waterLevel);
+    gl.uniform2f(this.resources.levelRangeLocation, this.levelRange[0], this.levelRange[1]);
+    gl.uniform4f(this.resources.cutoutLocation, ...this.cutout);
 
     gl.activeTexture(gl.TEXTURE0);
     gl.bindTexture(gl.TEXTURE_2D, this.resources.maskTexture);
     gl.uniform1i(this.resources.maskLocation, 0);
 
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.resources.depthTexture);
+    gl.uniform1i(this.resources.depthLocation, 1);
+    gl.activeTexture(gl.TEXTURE0);
+
     gl.enable(gl.BLEND);
     gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
     gl.enable(gl.DEPTH_TEST);
@@ -228,6 +293,7 @@ export class ConnectedWaterLayer implements mapboxgl.CustomLayerInterface {
     if (!this.resources) return;
 
     gl.deleteTexture(this.resources.maskTexture);
+    gl.deleteTexture(this.resources.depthTexture);
     gl.deleteBuffer(this.resources.vertexBuffer);
     gl.deleteBuffer(this.resources.indexBuffer);
     gl.deleteProgram(this.resources.program);
@@ -244,18 +310,51 @@ export class ConnectedWaterLayer implements mapboxgl.CustomLayerInterface {
     this.map?.triggerRepaint();
   }
 
-  updateMask(mask: Uint8Array, width: number, height: number): void {
-    if (!this.gl || !this.resources) return;
+  setCutout(cutout: BoundsLike | null): void {
+    if (!cutout) {
+      this.cutout = NO_CUTOUT;
+    } else {
+      const { west, east, south, north } = this.bounds;
+      this.cutout = [
+        (cutout.west - west) / (east - west),
+        (north - cutout.north) / (north - south),
+        (cutout.east - west) / (east - west),
+        (north - cutout.south) / (north - south),
+      ];
+    }
 
-    this.maskWidth = width;
-    this.maskHeight = height;
+    this.map?.triggerRepaint();
+  }
 
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.resources.maskTexture);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
-    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
-    this.gl.pixelStorei(this.gl.UNPACK_ALIGNMENT, 1);
+  updateMask(
+    mask: Uint8Array,
+    width: number,
+    height: number,
+    depth: Float32Array = new Float32Array(width * height)
+  ): void {
+    this.waterMask = { mask, width, height, depth };
+    this.uploadMask(this.waterMask);
+  }
+
+  // A copy that can be added to another map, e.g. an offscreen export render.
+  clone(): ConnectedWaterLayer {
+    const copy = new ConnectedWaterLayer(
+      this.bounds,
+      this.waterLevel,
+      this.resolution,
+      this.levelRange,
+      this.id
+    );
+    copy.cutout = this.cutout;
+    copy.waterMask = this.waterMask;
+
+    return copy;
+  }
+
+  private uploadMask({ mask, width, height, depth }: WaterMask): void {
+    if (!this.gl || !this.resources) return;
+
+    this.bindDataTexture(this.resources.maskTexture);
     this.gl.texImage2D(
       this.gl.TEXTURE_2D,
       0,
@@ -268,9 +367,33 @@ export class ConnectedWaterLayer implements mapboxgl.CustomLayerInterface {
       mask
     );
 
+    this.bindDataTexture(this.resources.depthTexture);
+    this.gl.texImage2D(
+      this.gl.TEXTURE_2D,
+      0,
+      this.gl.R16F,
+      width,
+      height,
+      0,
+      this.gl.RED,
+      this.gl.FLOAT,
+      depth
+    );
+
     this.map?.triggerRepaint();
   }
 
+  private bindDataTexture(texture: WebGLTexture): void {
+    if (!this.gl) return;
+
+    this.gl.bindTexture(this.gl.TEXTURE_2D, texture);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_S, this.gl.CLAMP_TO_EDGE);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_WRAP_T, this.gl.CLAMP_TO_EDGE);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MIN_FILTER, this.gl.LINEAR);
+    this.gl.texParameteri(this.gl.TEXTURE_2D, this.gl.TEXTURE_MAG_FILTER, this.gl.LINEAR);
+    this.gl.pixelStorei(this.gl.UNPACK_ALIGNMENT, 1);
+  }
+
   private rebuildMesh(): void {
     const vertices: number[] = [];
     const indices: number[] = [];
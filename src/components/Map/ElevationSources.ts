@@ -0,0 +1,263 @@
+import {
+  decodeFloat32Tile,
+  getPixelDecoder,
+  worldPixelToLngLat,
+  type ElevationEncoding,
+} from "./FloodModel";
+import { GeoTiffElevationSource } from "./GeoTiffSource";
+
+export const MEAN_SEA_LEVEL_DATUM = "Mean sea level";
+
+export interface ElevationSource {
+  readonly id: string;
+  readonly name: string;
+  // Vertical reference for the heights, reported alongside exports.
+  readonly verticalDatum?: string;
+  loadTile(zoom: number, x: number, y: number, tileSize: number): Promise<Float32Array>;
+}
+
+async function fetchTile(url: string): Promise<Response> {
+  const response = await fetch(url, { cache: "force-cache" });
+  if (!response.ok) {
+    throw new Error(`Failed to load terrain tile: ${response.status} ${response.statusText}`);
+  }
+
+  return response;
+}
+
+async function loadImage(response: Response): Promise<CanvasImageSource> {
+  const blob = await response.blob();
+
+  if (typeof createImageBitmap === "function") {
+    return createImageBitmap(blob);
+  }
+
+  const imageUrl = URL.createObjectURL(blob);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const element = new Image();
+      element.crossOrigin = "anonymous";
+      element.onload = () => resolve(element);
+      element.onerror = () => reject(new Error("Failed to decode terrain tile image"));
+      element.src = imageUrl;
+    });
+
+    return image;
+  } finally {
+    URL.revokeObjectURL(imageUrl);
+  }
+}
+
+function createTileContext(
+  tileSize: number
+): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(tileSize, tileSize).getContext("2d", {
+      willReadFrequently: true,
+    });
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = tileSize;
+  canvas.height = tileSize;
+  return canvas.getContext("2d", { willReadFrequently: true });
+}
+
+export async function loadEncodedTile(
+  url: string,
+  tileSize: number,
+  encoding: ElevationEncoding
+): Promise<Float32Array> {
+  const response = await fetchTile(url);
+
+  if (encoding === "float32") {
+    return decodeFloat32Tile(await response.arrayBuffer(), tileSize);
+  }
+
+  const decode = getPixelDecoder(encoding);
+  const image = await loadImage(response);
+  const context = createTileContext(tileSize);
+  if (!context) {
+    throw new Error("Failed to create terrain canvas context");
+  }
+
+  context.drawImage(image, 0, 0, tileSize, tileSize);
+  if (image instanceof ImageBitmap) {
+    image.close();
+  }
+
+  const pixels = context.getImageData(0, 0, tileSize, tileSize).data;
+  const elevations = new Float32Array(tileSize * tileSize);
+
+  for (let index = 0, pixel = 0; index < elevations.length; index += 1, pixel += 4) {
+    const elevation = decode(pixels[pixel], pixels[pixel + 1], pixels[pixel + 2]);
+    elevations[index] = Number.isFinite(elevation) ? elevation : 0;
+  }
+
+  return elevations;
+}
+
+export class MapboxTerrainRgbSource implements ElevationSource {
+  readonly id = "mapbox-terrain-rgb";
+  readonly name = "Mapbox Terrain-RGB";
+  readonly verticalDatum = MEAN_SEA_LEVEL_DATUM;
+
+  private readonly token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  getTileUrl(zoom: number, x: number, y: number): string {
+    const params = new URLSearchParams({
+      access_token: this.token,
+    });
+
+    return `https://api.mapbox.com/v4/mapbox.terrain-rgb/${zoom}/${x}/${y}.pngraw?${params.toString()}`;
+  }
+
+  loadTile(zoom: number, x: number, y: number, tileSize: number): Promise<Float32Array> {
+    return loadEncodedTile(this.getTileUrl(zoom, x, y), tileSize, "terrain-rgb");
+  }
+}
+
+export const AWS_TERRARIUM_URL_TEMPLATE =
+  "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png";
+
+export class TileUrlSource implements ElevationSource {
+  readonly id: string;
+  readonly name: string;
+  readonly encoding: ElevationEncoding;
+  readonly verticalDatum?: string;
+
+  private readonly urlTemplate: string;
+
+  constructor(
+    urlTemplate: string,
+    encoding: ElevationEncoding = "terrain-rgb",
+    name: string = "Terrain tiles",
+    id: string = "tile-url",
+    verticalDatum?: string
+  ) {
+    this.urlTemplate = urlTemplate;
+    this.encoding = encoding;
+    this.name = name;
+    this.id = id;
+    this.verticalDatum = verticalDatum;
+  }
+
+  getTileUrl(zoom: number, x: number, y: number): string {
+    return this.urlTemplate
+      .replace("{z}", String(zoom))
+      .replace("{x}", String(x))
+      .replace("{y}", String(y));
+  }
+
+  loadTile(zoom: number, x: number, y: number, tileSize: number): Promise<Float32Array> {
+    return loadEncodedTile(this.getTileUrl(zoom, x, y), tileSize, this.encoding);
+  }
+}
+
+export class LocalTileSource extends TileUrlSource {
+  constructor(
+    baseUrl: string = "/terrain",
+    encoding: ElevationEncoding = "terrain-rgb",
+    extension: string = encoding === "float32" ? "bin" : "png",
+    verticalDatum?: string
+  ) {
+    super(
+      `${baseUrl.replace(/\/+$/, "")}/{z}/{x}/{y}.${extension}`,
+      encoding,
+      "Local terrain tiles",
+      "local-tiles",
+      verticalDatum
+    );
+  }
+}
+
+export type ElevationSampler = (lng: number, lat: number) => number;
+
+// A gentle peninsula: high ground in the middle of the city falling away to
+// sea level, enough to exercise the flood model without any tiles.
+export const defaultSyntheticSampler: ElevationSampler = (lng, lat) => {
+  const dx = (lng + 122.445) / 0.06;
+  const dy = (lat - 37.76) / 0.045;
+  return 180 * Math.exp(-(dx * dx + dy * dy)) - 4;
+};
+
+export class SyntheticElevationSource implements ElevationSource {
+  readonly id = "synthetic";
+  readonly name = "Synthetic terrain";
+
+  private readonly sample: ElevationSampler;
+
+  constructor(sample: ElevationSampler = defaultSyntheticSampler) {
+    this.sample = sample;
+  }
+
+  async loadTile(zoom: number, x: number, y: number, tileSize: number): Promise<Float32Array> {
+    const elevations = new Float32Array(tileSize * tileSize);
+
+    for (let row = 0; row < tileSize; row += 1) {
+      for (let column = 0; column < tileSize; column += 1) {
+        const { lng, lat } = worldPixelToLngLat(
+          x * tileSize + column + 0.5,
+          y * tileSize + row + 0.5,
+          zoom,
+          tileSize
+        );
+        elevations[row * tileSize + column] = this.sample(lng, lat);
+      }
+    }
+
+    return elevations;
+  }
+}
+
+export interface ElevationSourceOptions {
+  geoTiffUrl?: string;
+  localEncoding?: string;
+  // Only local tiles and GeoTIFFs need this; the public tile sets are fixed.
+  verticalDatum?: string;
+}
+
+function isElevationEncoding(value: string | undefined): value is ElevationEncoding {
+  return value === "terrain-rgb" || value === "terrarium" || value === "float32";
+}
+
+export function createElevationSource(
+  kind: string | undefined,
+  token: string,
+  options: ElevationSourceOptions = {}
+): ElevationSource {
+  switch (kind) {
+    case "local":
+      return new LocalTileSource(
+        "/terrain",
+        isElevationEncoding(options.localEncoding) ? options.localEncoding : "terrain-rgb",
+        undefined,
+        options.verticalDatum
+      );
+    case "terrarium":
+      return new TileUrlSource(
+        AWS_TERRARIUM_URL_TEMPLATE,
+        "terrarium",
+        "AWS Terrain Tiles",
+        "aws-terrarium",
+        MEAN_SEA_LEVEL_DATUM
+      );
+    case "geotiff":
+      if (!options.geoTiffUrl) {
+        throw new Error("GeoTIFF elevation source needs NEXT_PUBLIC_GEOTIFF_URL");
+      }
+      return new GeoTiffElevationSource(
+        options.geoTiffUrl,
+        token ? new MapboxTerrainRgbSource(token) : null,
+        options.verticalDatum
+      );
+    case "synthetic":
+      return new SyntheticElevationSource();
+    default:
+      return new MapboxTerrainRgbSource(token);
+  }
+}
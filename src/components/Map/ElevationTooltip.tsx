@@ -2,11 +2,13 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import mapboxgl from "mapbox-gl";
+import { formatLength, type UnitSystem } from "@/lib/units";
 
 interface TooltipData {
   lat: number;
   lng: number;
   elevation: number;
+  depth: number | null;
   x: number;
   y: number;
 }
@@ -14,18 +16,36 @@ interface TooltipData {
 interface ElevationTooltipProps {
   tooltip: TooltipData | null;
   waterLevel: number;
+  units: UnitSystem;
 }
 
-function getFloodStatus(elevation: number, waterLevel: number): string {
+function getFloodStatus(
+  elevation: number,
+  waterLevel: number,
+  depth: number | null,
+  units: UnitSystem
+): string {
+  if (depth !== null && depth > 0) {
+    return `FLOODED (${formatLength(depth, units)} underwater)`;
+  }
+
   if (elevation <= waterLevel) {
-    return `FLOODED (${(waterLevel - elevation).toFixed(1)}m underwater)`;
+    if (depth !== null) return "Below water level, cut off from the ocean";
+    return `FLOODED (${formatLength(waterLevel - elevation, units)} underwater)`;
   }
 
-  return `${(elevation - waterLevel).toFixed(1)}m above water`;
+  return `${formatLength(elevation - waterLevel, units)} above water`;
 }
 
-function getStatusColor(elevation: number, waterLevel: number): string {
-  if (elevation <= waterLevel) return "text-red-500 font-semibold";
+function getStatusColor(
+  elevation: number,
+  waterLevel: number,
+  depth: number | null
+): string {
+  if (depth !== null && depth > 0) return "text-red-500 font-semibold";
+  if (elevation <= waterLevel) {
+    return depth !== null ? "text-amber-400 font-medium" : "text-red-500 font-semibold";
+  }
   if (elevation - waterLevel < 5) return "text-amber-400 font-medium";
   return "text-emerald-400 font-medium";
 }
@@ -33,6 +53,7 @@ function getStatusColor(elevation: number, waterLevel: number): string {
 export function ElevationTooltip({
   tooltip,
   waterLevel,
+  units,
 }: ElevationTooltipProps) {
   if (!tooltip) return null;
 
@@ -46,12 +67,14 @@ export function ElevationTooltip({
       }}
     >
       <div className="space-y-1">
-        <div className="font-semibold">Terrain {tooltip.elevation.toFixed(1)}m</div>
+        <div className="font-semibold">Terrain {formatLength(tooltip.elevation, units)}</div>
         <div className="text-xs text-slate-300">
           {tooltip.lat.toFixed(4)}°, {tooltip.lng.toFixed(4)}°
         </div>
-        <div className={`text-xs ${getStatusColor(tooltip.elevation, waterLevel)}`}>
-          {getFloodStatus(tooltip.elevation, waterLevel)}
+        <div
+          className={`text-xs ${getStatusColor(tooltip.elevation, waterLevel, tooltip.depth)}`}
+        >
+          {getFloodStatus(tooltip.elevation, waterLevel, tooltip.depth, units)}
         </div>
       </div>
     </div>
@@ -61,7 +84,8 @@ export function ElevationTooltip({
 export function useElevationTooltip(
   map: mapboxgl.Map | null,
   getElevation: (lng: number, lat: number) => number | null,
-  disabled: boolean = false
+  disabled: boolean = false,
+  getWaterDepth?: (lng: number, lat: number) => number | null
 ) {
   const [tooltip, setTooltip] = useState<TooltipData | null>(null);
   const disabledRef = useRef(disabled);
@@ -83,12 +107,15 @@ export function useElevationTooltip(
       return;
     }
 
+    const depth = getWaterDepth?.(event.lngLat.lng, event.lngLat.lat) ?? null;
+
     setTooltip((current) => {
       if (
         current &&
         current.x === event.point.x &&
         current.y === event.point.y &&
-        Math.abs(current.elevation - elevation) < 0.1
+        Math.abs(current.elevation - elevation) < 0.1 &&
+        current.depth === depth
       ) {
         return current;
       }
@@ -97,11 +124,12 @@ export function useElevationTooltip(
         lat: event.lngLat.lat,
         lng: event.lngLat.lng,
         elevation,
+        depth,
         x: event.point.x,
         y: event.point.y,
       };
     });
-  }, [getElevation, map]);
+  }, [getElevation, getWaterDepth, map]);
 
   const handleMouseMove = useCallback(
     (event: mapboxgl.MapMouseEvent) => {
@@ -1,4 +1,4 @@
-import mapboxgl from "mapbox-gl";
+import type mapboxgl from "mapbox-gl";
 
 // Interface for building flood analysis
 export interface BuildingFloodInfo {
@@ -81,6 +81,22 @@ export function getElevationAtPoint(
   return rgbToElevation(r, g, b);
 }
 
+// Corners and center of a pixel-space box
+function getBoundsSamplePoints(bounds: {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}): Array<{ x: number; y: number }> {
+  return [
+    { x: bounds.x, y: bounds.y }, // Top-left
+    { x: bounds.x + bounds.width, y: bounds.y }, // Top-right
+    { x: bounds.x, y: bounds.y + bounds.height }, // Bottom-left
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height }, // Bottom-right
+    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, // Center
+  ];
+}
+
 // Sample elevation data at multiple points for averaging
 export function sampleElevation(
   terrainData: Uint8Array,
@@ -91,16 +107,7 @@ export function sampleElevation(
   let totalElevation = 0;
   let sampleCount = 0;
 
-  // Sample at corners and center
-  const samplePoints = [
-    { x: bounds.x, y: bounds.y }, // Top-left
-    { x: bounds.x + bounds.width, y: bounds.y }, // Top-right
-    { x: bounds.x, y: bounds.y + bounds.height }, // Bottom-left
-    { x: bounds.x + bounds.width, y: bounds.y + bounds.height }, // Bottom-right
-    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, // Center
-  ];
-
-  for (const point of samplePoints) {
+  for (const point of getBoundsSamplePoints(bounds)) {
     const elevation = getElevationAtPoint(
       terrainData,
       point.x,
@@ -117,6 +124,134 @@ export function sampleElevation(
   return sampleCount > 0 ? totalElevation / sampleCount : 0;
 }
 
+export interface ElevationStats {
+  min: number;
+  mean: number;
+  max: number;
+  samples: number;
+}
+
+// Bilinear sample of a row-major grid where cell i covers [i, i + 1)
+export function sampleGridBilinear(
+  values: Float32Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): number {
+  if (x < 0 || y < 0 || x > width || y > height) {
+    return Number.NaN;
+  }
+
+  // Shift to cell-center coordinates
+  const pixelX = x - 0.5;
+  const pixelY = y - 0.5;
+  const x0 = Math.max(0, Math.min(width - 1, Math.floor(pixelX)));
+  const y0 = Math.max(0, Math.min(height - 1, Math.floor(pixelY)));
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = Math.max(0, Math.min(1, pixelX - x0));
+  const fy = Math.max(0, Math.min(1, pixelY - y0));
+
+  const topLeft = values[y0 * width + x0];
+  const topRight = values[y0 * width + x1];
+  const bottomLeft = values[y1 * width + x0];
+  const bottomRight = values[y1 * width + x1];
+
+  if (
+    Number.isFinite(topLeft) &&
+    Number.isFinite(topRight) &&
+    Number.isFinite(bottomLeft) &&
+    Number.isFinite(bottomRight)
+  ) {
+    const top = topLeft + (topRight - topLeft) * fx;
+    const bottom = bottomLeft + (bottomRight - bottomLeft) * fx;
+    return top + (bottom - top) * fy;
+  }
+
+  // Next to nodata, fall back to the nearest cell rather than smearing holes
+  const nearestX = fx < 0.5 ? x0 : x1;
+  const nearestY = fy < 0.5 ? y0 : y1;
+  return values[nearestY * width + nearestX];
+}
+
+// Min/mean/max over the cell centers inside a pixel-space footprint (even-odd
+// rings). Footprints smaller than a cell fall back to corner and center samples
+// of their bounding box.
+export function summarizeFootprintElevation(
+  rings: Array<Array<{ x: number; y: number }>>,
+  sample: (x: number, y: number) => number
+): ElevationStats | null {
+  const points = rings.flat();
+  if (points.length === 0) return null;
+
+  const minX = Math.min(...points.map((point) => point.x));
+  const maxX = Math.max(...points.map((point) => point.x));
+  const minY = Math.min(...points.map((point) => point.y));
+  const maxY = Math.max(...points.map((point) => point.y));
+
+  const values: number[] = [];
+  const crossings: number[] = [];
+
+  for (let row = Math.floor(minY); row < Math.ceil(maxY); row += 1) {
+    const centerY = row + 0.5;
+    crossings.length = 0;
+
+    for (const ring of rings) {
+      for (let index = 0; index < ring.length; index += 1) {
+        const start = ring[index];
+        const end = ring[(index + 1) % ring.length];
+        if (start.y <= centerY === end.y <= centerY) continue;
+
+        crossings.push(
+          start.x + ((centerY - start.y) / (end.y - start.y)) * (end.x - start.x)
+        );
+      }
+    }
+
+    crossings.sort((a, b) => a - b);
+
+    for (let pair = 0; pair + 1 < crossings.length; pair += 2) {
+      const firstColumn = Math.ceil(crossings[pair] - 0.5);
+      const lastColumn = Math.ceil(crossings[pair + 1] - 0.5) - 1;
+
+      for (let column = firstColumn; column <= lastColumn; column += 1) {
+        values.push(sample(column + 0.5, centerY));
+      }
+    }
+  }
+
+  if (!values.some(Number.isFinite)) {
+    values.length = 0;
+    for (const point of getBoundsSamplePoints({
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+    })) {
+      values.push(sample(point.x, point.y));
+    }
+  }
+
+  let min = Number.POSITIVE_INFINITY;
+  let max = Number.NEGATIVE_INFINITY;
+  let total = 0;
+  let samples = 0;
+
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    total += value;
+    samples += 1;
+  }
+
+  if (samples === 0) return null;
+
+  return { min, mean: total / samples, max, samples };
+}
+
 // Get optimal mesh resolution based on zoom level
 export function getOptimalResolution(zoom: number): number {
   if (zoom > 15) return 256;
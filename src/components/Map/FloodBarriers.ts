@@ -0,0 +1,103 @@
+export const DEFAULT_BARRIER_CREST_HEIGHT = 5;
+
+export interface FloodBarrier {
+  id: string;
+  name: string;
+  crestHeight: number;
+  coordinates: Array<[number, number]>;
+}
+
+export interface BarrierCells {
+  indices: Uint32Array;
+  crestHeights: Float32Array;
+}
+
+export const EMPTY_BARRIER_CELLS: BarrierCells = {
+  indices: new Uint32Array(),
+  crestHeights: new Float32Array(),
+};
+
+// Identifies what the flood fill sees of the barriers, so renaming one does
+// not rebuild the flood raster.
+export function getBarrierFloodKey(barriers: FloodBarrier[]): string {
+  return JSON.stringify(
+    barriers.map(({ crestHeight, coordinates }) => [crestHeight, coordinates])
+  );
+}
+
+export function rasterizeBarriers(
+  barriers: FloodBarrier[],
+  width: number,
+  height: number,
+  toGridPixel: (lng: number, lat: number) => { x: number; y: number }
+): BarrierCells {
+  const crestByCell = new Map<number, number>();
+
+  const stamp = (x: number, y: number, crestHeight: number) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+
+    const index = y * width + x;
+    crestByCell.set(index, Math.max(crestByCell.get(index) ?? -Infinity, crestHeight));
+  };
+
+  for (const barrier of barriers) {
+    const points = barrier.coordinates.map(([lng, lat]) => toGridPixel(lng, lat));
+
+    for (let index = 0; index + 1 < points.length; index += 1) {
+      const start = points[index];
+      const end = points[index + 1];
+      const steps = Math.max(
+        1,
+        Math.ceil(Math.max(Math.abs(end.x - start.x), Math.abs(end.y - start.y)) * 4)
+      );
+
+      let previousX = Math.floor(start.x);
+      let previousY = Math.floor(start.y);
+      stamp(previousX, previousY, barrier.crestHeight);
+
+      for (let step = 1; step <= steps; step += 1) {
+        const t = step / steps;
+        const cellX = Math.floor(start.x + (end.x - start.x) * t);
+        const cellY = Math.floor(start.y + (end.y - start.y) * t);
+
+        // The flood fill is 8-connected, so a diagonal step would leave a gap
+        // water can slip through. Fill the corner to keep the wall 4-connected.
+        if (cellX !== previousX && cellY !== previousY) {
+          stamp(cellX, previousY, barrier.crestHeight);
+        }
+
+        stamp(cellX, cellY, barrier.crestHeight);
+        previousX = cellX;
+        previousY = cellY;
+      }
+    }
+  }
+
+  const indices = new Uint32Array(crestByCell.size);
+  const crestHeights = new Float32Array(crestByCell.size);
+  let cursor = 0;
+
+  for (const [index, crestHeight] of crestByCell) {
+    indices[cursor] = index;
+    crestHeights[cursor] = crestHeight;
+    cursor += 1;
+  }
+
+  return { indices, crestHeights };
+}
+
+export function applyBarrierCells(
+  elevations: Float32Array,
+  cells: BarrierCells
+): Float32Array {
+  if (cells.indices.length === 0) return elevations;
+
+  const raised = elevations.slice();
+
+  for (let cursor = 0; cursor < cells.indices.length; cursor += 1) {
+    const index = cells.indices[cursor];
+    raised[index] = Math.max(raised[index], cells.crestHeights[cursor]);
+  }
+
+  return raised;
+}
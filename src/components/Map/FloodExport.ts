@@ -0,0 +1,264 @@
+import { writeArrayBuffer, type GeotiffWriterMetadata } from "geotiff";
+import type { Feature, FeatureCollection, MultiPolygon, Polygon, Position } from "geojson";
+import type { RegionDefinition } from "@/lib/regions";
+import type { ElevationSource } from "./ElevationSources";
+import type { BoundsLike, TerrainRgbModel } from "./FloodModel";
+import type { FloodSolution } from "./FloodSolver";
+import { getRowCellAreas } from "./FloodStats";
+import { vectorizeFloodMask } from "./FloodVectorizer";
+import { projectLngLat } from "./GeoTiffSource";
+
+export type FloodExportFormat = "geojson" | "kml" | "mask-tiff" | "depth-tiff";
+
+export interface FloodExportMetadata {
+  regionId: string;
+  region: string;
+  waterLevel: number;
+  datum: string;
+  sourceDem: string;
+  // Exports come from the region-wide base grid, not the finer viewport
+  // detail, so the grid they were solved on travels with them.
+  grid: "base";
+  gridZoom: number;
+  gridCellSizeM: number;
+  exportedAt: string;
+}
+
+export interface FloodExportGrid {
+  zoom: number;
+  cellSizeM: number;
+}
+
+export interface FloodExportContext {
+  model: TerrainRgbModel;
+  solution: FloodSolution;
+  region: RegionDefinition;
+  source: ElevationSource;
+}
+
+export interface FloodExportFile {
+  fileName: string;
+  blob: Blob;
+}
+
+const UNSPECIFIED_DATUM = "Unspecified";
+const WEB_MERCATOR_EPSG = 3857;
+
+// About a centimetre; the grid itself is far coarser.
+const COORDINATE_PRECISION = 1e7;
+
+// Cells are square in Web Mercator, so the side of a mid-grid cell stands for
+// the whole grid's ground resolution.
+export function getExportGrid(model: TerrainRgbModel): FloodExportGrid {
+  const areas = getRowCellAreas(model);
+  const cellSizeM = Math.sqrt(areas[Math.floor(areas.length / 2)]) * 1000;
+
+  return { zoom: model.metadata.zoom, cellSizeM: Math.round(cellSizeM * 10) / 10 };
+}
+
+export function createExportMetadata(
+  region: RegionDefinition,
+  waterLevel: number,
+  source: ElevationSource,
+  grid: FloodExportGrid,
+  exportedAt: Date = new Date()
+): FloodExportMetadata {
+  return {
+    regionId: region.id,
+    region: region.displayName,
+    waterLevel,
+    datum: source.verticalDatum || UNSPECIFIED_DATUM,
+    sourceDem: source.name,
+    grid: "base",
+    gridZoom: grid.zoom,
+    gridCellSizeM: grid.cellSizeM,
+    exportedAt: exportedAt.toISOString(),
+  };
+}
+
+function roundPosition([lng, lat]: Position): Position {
+  return [
+    Math.round(lng * COORDINATE_PRECISION) / COORDINATE_PRECISION,
+    Math.round(lat * COORDINATE_PRECISION) / COORDINATE_PRECISION,
+  ];
+}
+
+function getPolygons(geometry: Polygon | MultiPolygon | null): Position[][][] {
+  if (!geometry) return [];
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+export function extentToGeoJson(
+  geometry: Polygon | MultiPolygon | null,
+  metadata: FloodExportMetadata
+): FeatureCollection<Polygon | MultiPolygon> {
+  const features: Array<Feature<Polygon | MultiPolygon>> = [];
+
+  if (geometry) {
+    const coordinates = getPolygons(geometry).map((polygon) =>
+      polygon.map((ring) => ring.map(roundPosition))
+    );
+
+    features.push({
+      type: "Feature",
+      properties: { ...metadata },
+      geometry:
+        coordinates.length === 1
+          ? { type: "Polygon", coordinates: coordinates[0] }
+          : { type: "MultiPolygon", coordinates },
+    });
+  }
+
+  return { type: "FeatureCollection", features };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toKmlRing(ring: Position[]): string {
+  const coordinates = ring
+    .map((position) => roundPosition(position).join(","))
+    .join(" ");
+
+  return `<LinearRing><coordinates>${coordinates}</coordinates></LinearRing>`;
+}
+
+export function extentToKml(
+  geometry: Polygon | MultiPolygon | null,
+  metadata: FloodExportMetadata
+): string {
+  const title = escapeXml(`${metadata.region} flood extent at ${metadata.waterLevel} m`);
+  const data = Object.entries(metadata)
+    .map(
+      ([name, value]) =>
+        `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`
+    )
+    .join("");
+
+  const polygons = getPolygons(geometry)
+    .map(([outer, ...holes]) => {
+      const inner = holes
+        .map((hole) => `<innerBoundaryIs>${toKmlRing(hole)}</innerBoundaryIs>`)
+        .join("");
+      return `<Polygon><outerBoundaryIs>${toKmlRing(outer)}</outerBoundaryIs>${inner}</Polygon>`;
+    })
+    .join("");
+
+  const placemark = polygons
+    ? `<Placemark><name>${title}</name><styleUrl>#flood</styleUrl><MultiGeometry>${polygons}</MultiGeometry></Placemark>`
+    : "";
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    `<name>${title}</name>`,
+    `<ExtendedData>${data}</ExtendedData>`,
+    '<Style id="flood"><LineStyle><color>fffef2e0</color><width>1.5</width></LineStyle>' +
+      "<PolyStyle><color>80f8bd38</color></PolyStyle></Style>",
+    placemark,
+    "</Document>",
+    "</kml>",
+  ].join("\n");
+}
+
+// The terrain grid is whole Web Mercator tiles, so the raster is written in
+// EPSG:3857 with pixel edges exactly on the model bounds.
+export function encodeGridGeoTiff(
+  values: Uint8Array | Float32Array,
+  width: number,
+  height: number,
+  bounds: BoundsLike,
+  metadata: FloodExportMetadata
+): ArrayBuffer {
+  if (values.length !== width * height) {
+    throw new Error("Export raster does not match the grid size");
+  }
+
+  const northWest = projectLngLat(bounds.west, bounds.north, WEB_MERCATOR_EPSG);
+  const southEast = projectLngLat(bounds.east, bounds.south, WEB_MERCATOR_EPSG);
+
+  // ImageDescription is a plain TIFF tag the writer supports but does not type.
+  const tags: GeotiffWriterMetadata & { ImageDescription: string } = {
+    width,
+    height,
+    ModelPixelScale: [
+      (southEast.x - northWest.x) / width,
+      (northWest.y - southEast.y) / height,
+      0,
+    ],
+    ModelTiepoint: [0, 0, 0, northWest.x, northWest.y, 0],
+    GTModelTypeGeoKey: 1,
+    GTRasterTypeGeoKey: 1,
+    ProjectedCSTypeGeoKey: WEB_MERCATOR_EPSG,
+    GTCitationGeoKey: "WGS 84 / Pseudo-Mercator",
+    ImageDescription: JSON.stringify(metadata),
+  };
+
+  return writeArrayBuffer(values, tags);
+}
+
+function getFileName(metadata: FloodExportMetadata, kind: string, extension: string): string {
+  const level = String(metadata.waterLevel).replace(".", "_");
+  return `${metadata.regionId}-flood-${level}m-${kind}.${extension}`;
+}
+
+export function buildFloodExport(
+  context: FloodExportContext,
+  format: FloodExportFormat,
+  exportedAt: Date = new Date()
+): FloodExportFile {
+  const { model, solution, region, source } = context;
+  const metadata = createExportMetadata(
+    region,
+    solution.waterLevel,
+    source,
+    getExportGrid(model),
+    exportedAt
+  );
+
+  if (format === "geojson" || format === "kml") {
+    const geometry = vectorizeFloodMask(
+      solution.mask,
+      solution.width,
+      solution.height,
+      (x, y) => model.gridPixelToLngLat(x, y)
+    );
+
+    return format === "geojson"
+      ? {
+          fileName: getFileName(metadata, "extent", "geojson"),
+          blob: new Blob([JSON.stringify(extentToGeoJson(geometry, metadata))], {
+            type: "application/geo+json",
+          }),
+        }
+      : {
+          fileName: getFileName(metadata, "extent", "kml"),
+          blob: new Blob([extentToKml(geometry, metadata)], {
+            type: "application/vnd.google-earth.kml+xml",
+          }),
+        };
+  }
+
+  const values =
+    format === "mask-tiff"
+      ? solution.mask.map((value) => (value === 0 ? 0 : 1))
+      : solution.depth;
+  const tiff = encodeGridGeoTiff(
+    values,
+    solution.width,
+    solution.height,
+    model.metadata.bounds,
+    metadata
+  );
+
+  return {
+    fileName: getFileName(metadata, format === "mask-tiff" ? "mask" : "depth", "tif"),
+    blob: new Blob([tiff], { type: "image/tiff" }),
+  };
+}
@@ -1,4 +1,20 @@
-const DEFAULT_TILE_SIZE = 512;
+import type { MultiPolygon, Polygon } from "geojson";
+import type { ElevationSource } from "./ElevationSources";
+import {
+  sampleGridBilinear,
+  summarizeFootprintElevation,
+  type ElevationStats,
+} from "./ElevationUtils";
+import {
+  applyBarrierCells,
+  EMPTY_BARRIER_CELLS,
+  rasterizeBarriers,
+  type BarrierCells,
+  type FloodBarrier,
+} from "./FloodBarriers";
+import { rasterizeOceanSeeds, type OceanSeed } from "./OceanSeeds";
+
+export const DEFAULT_TILE_SIZE = 512;
 export const DEFAULT_TERRAIN_ZOOM = 13;
 
 export interface BoundsLike {
@@ -15,6 +31,14 @@ export interface TileRange {
   maxY: number;
 }
 
+// A block of grid cells; the maximums are exclusive.
+export interface GridWindow {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
 export interface TerrainModelMetadata {
   zoom: number;
   width: number;
@@ -33,10 +57,49 @@ export function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+export type ElevationEncoding = "terrain-rgb" | "terrarium" | "float32";
+
+export type PixelDecoder = (r: number, g: number, b: number) => number;
+
 export function decodeTerrainRgb(r: number, g: number, b: number): number {
   return -10000 + (r * 256 * 256 + g * 256 + b) * 0.1;
 }
 
+export function decodeTerrarium(r: number, g: number, b: number): number {
+  return r * 256 + g + b / 256 - 32768;
+}
+
+export function getPixelDecoder(encoding: ElevationEncoding): PixelDecoder {
+  switch (encoding) {
+    case "terrain-rgb":
+      return decodeTerrainRgb;
+    case "terrarium":
+      return decodeTerrarium;
+    default:
+      throw new Error(`Elevation encoding "${encoding}" is not an image encoding`);
+  }
+}
+
+export function decodeFloat32Tile(buffer: ArrayBuffer, tileSize: number): Float32Array {
+  const cells = tileSize * tileSize;
+  if (buffer.byteLength !== cells * Float32Array.BYTES_PER_ELEMENT) {
+    throw new Error(
+      `Float32 terrain tile has ${buffer.byteLength} bytes, expected ${
+        cells * Float32Array.BYTES_PER_ELEMENT
+      }`
+    );
+  }
+
+  const view = new DataView(buffer);
+  const elevations = new Float32Array(cells);
+
+  for (let index = 0; index < cells; index += 1) {
+    elevations[index] = view.getFloat32(index * Float32Array.BYTES_PER_ELEMENT, true);
+  }
+
+  return elevations;
+}
+
 export function lngLatToWorldPixel(
   lng: number,
   lat: number,
@@ -118,11 +181,36 @@ export function tileRangeToBounds(
   };
 }
 
+function forEachSeedCell(
+  width: number,
+  height: number,
+  seedMask: Uint8Array | null,
+  visit: (index: number) => void
+): void {
+  if (seedMask) {
+    for (let index = 0; index < width * height; index += 1) {
+      if (seedMask[index] !== 0) visit(index);
+    }
+    return;
+  }
+
+  for (let x = 0; x < width; x += 1) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+
+  for (let y = 1; y < height - 1; y += 1) {
+    visit(y * width);
+    visit(y * width + (width - 1));
+  }
+}
+
 export function buildConnectedFloodMaskFromElevations(
   elevations: Float32Array,
   width: number,
   height: number,
-  waterLevel: number
+  waterLevel: number,
+  seedMask: Uint8Array | null = null
 ): Uint8Array {
   const totalCells = width * height;
   const floodMask = new Uint8Array(totalCells);
@@ -141,15 +229,7 @@ export function buildConnectedFloodMaskFromElevations(
     tail += 1;
   };
 
-  for (let x = 0; x < width; x += 1) {
-    enqueueIfFlooded(x);
-    enqueueIfFlooded((height - 1) * width + x);
-  }
-
-  for (let y = 1; y < height - 1; y += 1) {
-    enqueueIfFlooded(y * width);
-    enqueueIfFlooded(y * width + (width - 1));
-  }
+  forEachSeedCell(width, height, seedMask, enqueueIfFlooded);
 
   while (head < tail) {
     const index = queue[head];
@@ -172,57 +252,218 @@ export function buildConnectedFloodMaskFromElevations(
   return floodMask;
 }
 
-function getTileUrl(token: string, zoom: number, x: number, y: number): string {
-  const params = new URLSearchParams({
-    access_token: token,
-  });
+export interface FloodInflow {
+  indices: Uint32Array;
+  levels: Float32Array;
+}
+
+export function buildFloodLevelRaster(
+  elevations: Float32Array,
+  width: number,
+  height: number,
+  seedMask: Uint8Array | null = null,
+  inflow: FloodInflow | null = null
+): Float32Array {
+  const totalCells = width * height;
+  const floodLevels = new Float32Array(totalCells).fill(Number.POSITIVE_INFINITY);
+  const visited = new Uint8Array(totalCells);
+  const heap = new Uint32Array(totalCells);
+  let heapSize = 0;
+
+  const push = (index: number, level: number) => {
+    floodLevels[index] = level;
+
+    let position = heapSize;
+    heapSize += 1;
+
+    while (position > 0) {
+      const parent = (position - 1) >> 1;
+      if (floodLevels[heap[parent]] <= level) break;
+
+      heap[position] = heap[parent];
+      position = parent;
+    }
+
+    heap[position] = index;
+  };
+
+  const pop = (): number => {
+    const top = heap[0];
+    heapSize -= 1;
+
+    const last = heap[heapSize];
+    const lastLevel = floodLevels[last];
+    let position = 0;
+
+    while (true) {
+      let child = position * 2 + 1;
+      if (child >= heapSize) break;
+
+      if (
+        child + 1 < heapSize &&
+        floodLevels[heap[child + 1]] < floodLevels[heap[child]]
+      ) {
+        child += 1;
+      }
+
+      if (floodLevels[heap[child]] >= lastLevel) break;
+
+      heap[position] = heap[child];
+      position = child;
+    }
+
+    heap[position] = last;
+    return top;
+  };
+
+  const visit = (index: number, spillLevel: number) => {
+    if (visited[index] === 1) return;
+    visited[index] = 1;
 
-  return `https://api.mapbox.com/v4/mapbox.terrain-rgb/${zoom}/${x}/${y}.pngraw?${params.toString()}`;
+    const elevation = elevations[index];
+    if (!Number.isFinite(elevation)) return;
+
+    push(index, Math.max(elevation, spillLevel));
+  };
+
+  if (seedMask || !inflow) {
+    forEachSeedCell(width, height, seedMask, (index) =>
+      visit(index, Number.NEGATIVE_INFINITY)
+    );
+  }
+
+  // Inflow cells enter the queue only once the flood front reaches their level,
+  // so a cell fed cheaply from a neighbour is never stuck at a higher inflow.
+  const inflowOrder = inflow
+    ? Array.from(inflow.indices.keys())
+        .filter((entry) => Number.isFinite(inflow.levels[entry]))
+        .sort((a, b) => inflow.levels[a] - inflow.levels[b])
+    : [];
+  let nextInflow = 0;
+
+  while (true) {
+    while (
+      inflow &&
+      nextInflow < inflowOrder.length &&
+      (heapSize === 0 || inflow.levels[inflowOrder[nextInflow]] <= floodLevels[heap[0]])
+    ) {
+      const entry = inflowOrder[nextInflow];
+      visit(inflow.indices[entry], inflow.levels[entry]);
+      nextInflow += 1;
+    }
+
+    if (heapSize === 0) break;
+
+    const index = pop();
+    const level = floodLevels[index];
+
+    const x = index % width;
+    const y = Math.floor(index / width);
+
+    if (x > 0) visit(index - 1, level);
+    if (x < width - 1) visit(index + 1, level);
+    if (y > 0) visit(index - width, level);
+    if (y < height - 1) visit(index + width, level);
+
+    if (x > 0 && y > 0) visit(index - width - 1, level);
+    if (x < width - 1 && y > 0) visit(index - width + 1, level);
+    if (x > 0 && y < height - 1) visit(index + width - 1, level);
+    if (x < width - 1 && y < height - 1) visit(index + width + 1, level);
+  }
+
+  return floodLevels;
 }
 
-async function loadImageBitmap(url: string): Promise<CanvasImageSource> {
-  const response = await fetch(url, { cache: "force-cache" });
-  if (!response.ok) {
-    throw new Error(`Failed to load terrain tile: ${response.status} ${response.statusText}`);
+export function thresholdFloodLevels(
+  floodLevels: Float32Array,
+  waterLevel: number
+): Uint8Array {
+  const floodMask = new Uint8Array(floodLevels.length);
+
+  for (let index = 0; index < floodLevels.length; index += 1) {
+    if (floodLevels[index] <= waterLevel) {
+      floodMask[index] = 255;
+    }
   }
 
-  const blob = await response.blob();
+  return floodMask;
+}
 
-  if (typeof createImageBitmap === "function") {
-    return createImageBitmap(blob);
+// Land area flooded at each of `levels` (ascending), in the units of
+// `rowCellAreas`. Each land cell is counted from the first level at or above the
+// level it floods at, so one pass over the grid gives the whole curve.
+export function buildHypsometricCurve(
+  floodElevations: Float32Array,
+  floodLevels: Float32Array,
+  width: number,
+  window: GridWindow,
+  rowCellAreas: Float64Array,
+  levels: Float64Array
+): Float64Array {
+  const areas = new Float64Array(levels.length);
+  const highest = levels[levels.length - 1];
+
+  for (let y = window.minY; y < window.maxY; y += 1) {
+    for (let index = y * width + window.minX; index < y * width + window.maxX; index += 1) {
+      const level = floodLevels[index];
+      if (!(floodElevations[index] > 0) || !(level <= highest)) continue;
+
+      let low = 0;
+      let high = levels.length - 1;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (level <= levels[middle]) high = middle;
+        else low = middle + 1;
+      }
+      areas[low] += rowCellAreas[y];
+    }
   }
 
-  const imageUrl = URL.createObjectURL(blob);
-  try {
-    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
-      const element = new Image();
-      element.crossOrigin = "anonymous";
-      element.onload = () => resolve(element);
-      element.onerror = () => reject(new Error("Failed to decode terrain tile image"));
-      element.src = imageUrl;
-    });
+  for (let index = 1; index < areas.length; index += 1) {
+    areas[index] += areas[index - 1];
+  }
+
+  return areas;
+}
 
-    return image;
-  } finally {
-    URL.revokeObjectURL(imageUrl);
+export function buildFloodDepthFromLevels(
+  elevations: Float32Array,
+  floodLevels: Float32Array,
+  waterLevel: number
+): Float32Array {
+  const depth = new Float32Array(elevations.length);
+
+  for (let index = 0; index < elevations.length; index += 1) {
+    if (floodLevels[index] <= waterLevel) {
+      depth[index] = Math.max(0, waterLevel - elevations[index]);
+    }
   }
+
+  return depth;
 }
 
 export class TerrainRgbModel {
   readonly metadata: TerrainModelMetadata;
 
-  private readonly token: string;
+  readonly source: ElevationSource;
+
   private readonly tileSize: number;
   private readonly tileRange: TileRange;
   private elevations: Float32Array | null = null;
+  private floodElevations: Float32Array | null = null;
+  private floodLevels: Float32Array | null = null;
+  private seedMask: Uint8Array | null = null;
+  private inflow: FloodInflow | null = null;
+  private barrierCells: BarrierCells = EMPTY_BARRIER_CELLS;
 
   constructor(
-    token: string,
+    source: ElevationSource,
     bounds: BoundsLike = SAN_FRANCISCO_MODEL_BOUNDS,
     zoom: number = DEFAULT_TERRAIN_ZOOM,
-    tileSize: number = DEFAULT_TILE_SIZE
+    tileSize: number = DEFAULT_TILE_SIZE,
+    oceanSeeds: OceanSeed[] | Uint8Array | null = null
   ) {
-    this.token = token;
+    this.source = source;
     this.tileSize = tileSize;
     this.tileRange = boundsToTileRange(bounds, zoom, tileSize);
 
@@ -235,33 +476,78 @@ export class TerrainRgbModel {
       height,
       bounds: tileRangeToBounds(this.tileRange, zoom, tileSize),
     };
-  }
 
-  async load(): Promise<void> {
-    if (this.elevations) return;
+    this.setOceanSeeds(oceanSeeds);
+  }
 
-    const canvas = document.createElement("canvas");
-    canvas.width = this.metadata.width;
-    canvas.height = this.metadata.height;
+  setOceanSeeds(oceanSeeds: OceanSeed[] | Uint8Array | null): void {
+    if (oceanSeeds instanceof Uint8Array) {
+      if (oceanSeeds.length !== this.metadata.width * this.metadata.height) {
+        throw new Error("Ocean seed mask does not match the terrain grid size");
+      }
 
-    const context = canvas.getContext("2d", { willReadFrequently: true });
-    if (!context) {
-      throw new Error("Failed to create terrain canvas context");
+      this.seedMask = oceanSeeds;
+    } else if (oceanSeeds && oceanSeeds.length > 0) {
+      this.seedMask = rasterizeOceanSeeds(
+        oceanSeeds,
+        this.metadata.width,
+        this.metadata.height,
+        (lng, lat) => this.lngLatToGridPixel(lng, lat)
+      );
+    } else {
+      this.seedMask = null;
     }
 
+    this.floodLevels = null;
+  }
+
+  getSeedMask(): Uint8Array | null {
+    return this.seedMask;
+  }
+
+  setInflow(inflow: FloodInflow | null): void {
+    this.inflow = inflow;
+    this.floodLevels = null;
+  }
+
+  getInflow(): FloodInflow | null {
+    return this.inflow;
+  }
+
+  setBarriers(barriers: FloodBarrier[]): void {
+    this.barrierCells = rasterizeBarriers(
+      barriers,
+      this.metadata.width,
+      this.metadata.height,
+      (lng, lat) => this.lngLatToGridPixel(lng, lat)
+    );
+    this.floodElevations = null;
+    this.floodLevels = null;
+  }
+
+  getBarrierCells(): BarrierCells {
+    return this.barrierCells;
+  }
+
+  async load(): Promise<void> {
+    if (this.elevations) return;
+
+    const { width, height, zoom } = this.metadata;
+    const elevations = new Float32Array(width * height);
     const jobs: Array<Promise<void>> = [];
 
     for (let tileY = this.tileRange.minY; tileY <= this.tileRange.maxY; tileY += 1) {
       for (let tileX = this.tileRange.minX; tileX <= this.tileRange.maxX; tileX += 1) {
-        const url = getTileUrl(this.token, this.metadata.zoom, tileX, tileY);
         const offsetX = (tileX - this.tileRange.minX) * this.tileSize;
         const offsetY = (tileY - this.tileRange.minY) * this.tileSize;
 
         jobs.push(
-          loadImageBitmap(url).then((bitmap) => {
-            context.drawImage(bitmap, offsetX, offsetY, this.tileSize, this.tileSize);
-            if (bitmap instanceof ImageBitmap) {
-              bitmap.close();
+          this.source.loadTile(zoom, tileX, tileY, this.tileSize).then((tile) => {
+            for (let row = 0; row < this.tileSize; row += 1) {
+              elevations.set(
+                tile.subarray(row * this.tileSize, (row + 1) * this.tileSize),
+                (offsetY + row) * width + offsetX
+              );
             }
           })
         );
@@ -270,23 +556,6 @@ export class TerrainRgbModel {
 
     await Promise.all(jobs);
 
-    const imageData = context.getImageData(
-      0,
-      0,
-      this.metadata.width,
-      this.metadata.height
-    ).data;
-
-    const elevations = new Float32Array(this.metadata.width * this.metadata.height);
-    for (let index = 0, pixel = 0; index < elevations.length; index += 1, pixel += 4) {
-      const elevation = decodeTerrainRgb(
-        imageData[pixel],
-        imageData[pixel + 1],
-        imageData[pixel + 2]
-      );
-      elevations[index] = Number.isFinite(elevation) ? elevation : 0;
-    }
-
     this.elevations = elevations;
   }
 
@@ -294,15 +563,48 @@ export class TerrainRgbModel {
     return this.elevations !== null;
   }
 
-  buildFloodMask(waterLevel: number): Uint8Array {
+  cloneElevations(): Float32Array {
     if (!this.elevations) {
       throw new Error("Terrain RGB model has not been loaded yet");
     }
 
-    return buildConnectedFloodMaskFromElevations(
-      this.elevations,
-      this.metadata.width,
-      this.metadata.height,
+    return this.elevations.slice();
+  }
+
+  getFloodElevations(): Float32Array {
+    if (!this.elevations) {
+      throw new Error("Terrain RGB model has not been loaded yet");
+    }
+
+    if (!this.floodElevations) {
+      this.floodElevations = applyBarrierCells(this.elevations, this.barrierCells);
+    }
+
+    return this.floodElevations;
+  }
+
+  getFloodLevels(): Float32Array {
+    if (!this.floodLevels) {
+      this.floodLevels = buildFloodLevelRaster(
+        this.getFloodElevations(),
+        this.metadata.width,
+        this.metadata.height,
+        this.seedMask,
+        this.inflow
+      );
+    }
+
+    return this.floodLevels;
+  }
+
+  buildFloodMask(waterLevel: number): Uint8Array {
+    return thresholdFloodLevels(this.getFloodLevels(), waterLevel);
+  }
+
+  buildFloodDepth(waterLevel: number): Float32Array {
+    return buildFloodDepthFromLevels(
+      this.getFloodElevations(),
+      this.getFloodLevels(),
       waterLevel
     );
   }
@@ -310,9 +612,53 @@ export class TerrainRgbModel {
   getElevation(lng: number, lat: number): number | null {
     if (!this.elevations) return null;
 
+    const grid = this.lngLatToGridPixel(lng, lat);
+    const elevation = sampleGridBilinear(
+      this.elevations,
+      this.metadata.width,
+      this.metadata.height,
+      grid.x,
+      grid.y
+    );
+    return Number.isFinite(elevation) ? elevation : null;
+  }
+
+  getFootprintElevation(geometry: Polygon | MultiPolygon): ElevationStats | null {
+    const elevations = this.elevations;
+    if (!elevations) return null;
+
+    const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+    const rings = polygons.flatMap((polygon) =>
+      polygon.map((ring) => ring.map(([lng, lat]) => this.lngLatToGridPixel(lng, lat)))
+    );
+
+    return summarizeFootprintElevation(rings, (x, y) =>
+      sampleGridBilinear(elevations, this.metadata.width, this.metadata.height, x, y)
+    );
+  }
+
+  lngLatToGridPixel(lng: number, lat: number): { x: number; y: number } {
     const world = lngLatToWorldPixel(lng, lat, this.metadata.zoom, this.tileSize);
-    const localX = Math.round(world.x - this.tileRange.minX * this.tileSize);
-    const localY = Math.round(world.y - this.tileRange.minY * this.tileSize);
+
+    return {
+      x: world.x - this.tileRange.minX * this.tileSize,
+      y: world.y - this.tileRange.minY * this.tileSize,
+    };
+  }
+
+  gridPixelToLngLat(x: number, y: number): { lng: number; lat: number } {
+    return worldPixelToLngLat(
+      x + this.tileRange.minX * this.tileSize,
+      y + this.tileRange.minY * this.tileSize,
+      this.metadata.zoom,
+      this.tileSize
+    );
+  }
+
+  getCellIndex(lng: number, lat: number): number | null {
+    const grid = this.lngLatToGridPixel(lng, lat);
+    const localX = Math.round(grid.x);
+    const localY = Math.round(grid.y);
 
     if (
       localX < 0 ||
@@ -323,6 +669,6 @@ export class TerrainRgbModel {
       return null;
     }
 
-    return this.elevations[localY * this.metadata.width + localX] ?? null;
+    return localY * this.metadata.width + localX;
   }
 }
@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import mapboxgl from "mapbox-gl";
+import type { FeatureCollection, MultiPolygon, Polygon } from "geojson";
+import type { TerrainRgbModel } from "./FloodModel";
+import type { FloodSolution } from "./FloodSolver";
+import { vectorizeFloodMask } from "./FloodVectorizer";
+
+export const FLOOD_EXTENT_SOURCE_ID = "flood-extent";
+export const FLOOD_EXTENT_FILL_LAYER_ID = "flood-extent-fill";
+export const FLOOD_EXTENT_LINE_LAYER_ID = "flood-extent-outline";
+
+export type FloodExtent = FeatureCollection<Polygon | MultiPolygon>;
+
+// Vectorizing a full region grid is too slow to repeat for every slider step.
+const OUTLINE_DELAY_MS = 250;
+
+export function buildFloodExtent(
+  model: TerrainRgbModel,
+  solution: FloodSolution
+): FloodExtent {
+  const geometry = vectorizeFloodMask(
+    solution.mask,
+    solution.width,
+    solution.height,
+    (x, y) => model.gridPixelToLngLat(x, y)
+  );
+
+  return {
+    type: "FeatureCollection",
+    features: geometry
+      ? [
+          {
+            type: "Feature",
+            properties: { waterLevel: solution.waterLevel },
+            geometry,
+          },
+        ]
+      : [],
+  };
+}
+
+const EMPTY_EXTENT: FloodExtent = { type: "FeatureCollection", features: [] };
+
+export function useFloodOutline(
+  map: mapboxgl.Map | null,
+  enabled: boolean,
+  model: TerrainRgbModel | null,
+  solution: FloodSolution | null
+) {
+  const [extent, setExtent] = useState<FloodExtent | null>(null);
+
+  useEffect(() => {
+    if (!map || !enabled || map.getSource(FLOOD_EXTENT_SOURCE_ID)) return;
+
+    map.addSource(FLOOD_EXTENT_SOURCE_ID, {
+      type: "geojson",
+      data: EMPTY_EXTENT,
+    });
+
+    // Transparent fill so the flooded area can be hit-tested with
+    // queryRenderedFeatures while the water layer does the drawing.
+    map.addLayer(
+      {
+        id: FLOOD_EXTENT_FILL_LAYER_ID,
+        type: "fill",
+        source: FLOOD_EXTENT_SOURCE_ID,
+        paint: {
+          "fill-color": "#38bdf8",
+          "fill-opacity": 0,
+        },
+      },
+      "3d-buildings"
+    );
+
+    map.addLayer(
+      {
+        id: FLOOD_EXTENT_LINE_LAYER_ID,
+        type: "line",
+        source: FLOOD_EXTENT_SOURCE_ID,
+        layout: {
+          "line-join": "round",
+        },
+        paint: {
+          "line-color": "#e0f2fe",
+          "line-width": 1.5,
+          "line-opacity": 0.85,
+        },
+      },
+      "3d-buildings"
+    );
+  }, [enabled, map]);
+
+  useEffect(() => {
+    if (!model || !solution) {
+      setExtent(null);
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      setExtent(buildFloodExtent(model, solution));
+    }, OUTLINE_DELAY_MS);
+
+    return () => window.clearTimeout(timeout);
+  }, [model, solution]);
+
+  useEffect(() => {
+    if (!map || !enabled) return;
+
+    const source = map.getSource(FLOOD_EXTENT_SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(extent ?? EMPTY_EXTENT);
+  }, [enabled, extent, map]);
+
+  return { extent };
+}
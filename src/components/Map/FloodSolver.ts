@@ -0,0 +1,317 @@
+import type { BarrierCells } from "./FloodBarriers";
+import type { FloodInflow, GridWindow, TerrainRgbModel } from "./FloodModel";
+import type { FloodStatsGrid } from "./FloodStats";
+
+export type FloodSolverRequest =
+  | {
+      type: "init";
+      elevations: Float32Array;
+      seedMask: Uint8Array | null;
+      inflow: FloodInflow | null;
+      width: number;
+      height: number;
+    }
+  | {
+      type: "barriers";
+      indices: Uint32Array;
+      crestHeights: Float32Array;
+    }
+  | {
+      type: "solve";
+      requestId: number;
+      waterLevel: number;
+    }
+  | {
+      type: "curve";
+      requestId: number;
+      levels: Float64Array;
+      window: GridWindow;
+      rowCellAreas: Float64Array;
+    }
+  | {
+      type: "sample";
+      requestId: number;
+      indices: Uint32Array;
+    };
+
+export type FloodSolverResponse =
+  | {
+      type: "mask";
+      requestId: number;
+      waterLevel: number;
+      mask: Uint8Array;
+      depth: Float32Array;
+    }
+  | {
+      type: "curve";
+      requestId: number;
+      areas: Float64Array;
+    }
+  | {
+      type: "sample";
+      requestId: number;
+      levels: Float32Array;
+    }
+  | {
+      type: "error";
+      requestId: number;
+      message: string;
+    };
+
+export interface FloodSolution {
+  waterLevel: number;
+  mask: Uint8Array;
+  depth: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface FloodSolverWorker {
+  postMessage(message: FloodSolverRequest, transfer: Transferable[]): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<FloodSolverResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+interface PendingReply {
+  resolve: (response: FloodSolverResponse | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingSolve {
+  requestId: number;
+  waterLevel: number;
+  resolve: (solution: FloodSolution | null) => void;
+  reject: (error: Error) => void;
+}
+
+function createDefaultWorker(): FloodSolverWorker {
+  return new Worker(new URL("./FloodSolver.worker.ts", import.meta.url), {
+    type: "module",
+  }) as FloodSolverWorker;
+}
+
+export class FloodSolver {
+  private readonly worker: FloodSolverWorker;
+  private width = 0;
+  private height = 0;
+  private nextRequestId = 1;
+  private inFlight: PendingSolve | null = null;
+  private queued: PendingSolve | null = null;
+  // Curves and samples are not superseded like solves, so each waits for its
+  // own reply.
+  private replies = new Map<number, PendingReply>();
+  private disposed = false;
+
+  constructor(createWorker: () => FloodSolverWorker = createDefaultWorker) {
+    this.worker = createWorker();
+    this.worker.onmessage = this.handleMessage;
+    this.worker.onerror = this.handleError;
+  }
+
+  isInitialized(): boolean {
+    return this.width > 0 && this.height > 0;
+  }
+
+  init(model: TerrainRgbModel): void {
+    const elevations = model.cloneElevations();
+    const seedMask = model.getSeedMask()?.slice() ?? null;
+    const modelInflow = model.getInflow();
+    const inflow = modelInflow
+      ? { indices: modelInflow.indices.slice(), levels: modelInflow.levels.slice() }
+      : null;
+    const transfer: Transferable[] = [elevations.buffer];
+    if (seedMask) {
+      transfer.push(seedMask.buffer);
+    }
+    if (inflow) {
+      transfer.push(inflow.indices.buffer, inflow.levels.buffer);
+    }
+
+    this.width = model.metadata.width;
+    this.height = model.metadata.height;
+    this.worker.postMessage(
+      {
+        type: "init",
+        elevations,
+        seedMask,
+        inflow,
+        width: this.width,
+        height: this.height,
+      },
+      transfer
+    );
+
+    const barrierCells = model.getBarrierCells();
+    if (barrierCells.indices.length > 0) {
+      this.setBarriers(barrierCells);
+    }
+  }
+
+  setBarriers(cells: BarrierCells): void {
+    if (this.disposed) return;
+
+    const indices = cells.indices.slice();
+    const crestHeights = cells.crestHeights.slice();
+
+    this.worker.postMessage(
+      {
+        type: "barriers",
+        indices,
+        crestHeights,
+      },
+      [indices.buffer, crestHeights.buffer]
+    );
+  }
+
+  solve(waterLevel: number): Promise<FloodSolution | null> {
+    if (this.disposed) {
+      return Promise.reject(new Error("Flood solver has been disposed"));
+    }
+
+    if (!this.isInitialized()) {
+      return Promise.reject(new Error("Flood solver has not been initialized yet"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: PendingSolve = {
+        requestId: this.nextRequestId,
+        waterLevel,
+        resolve,
+        reject,
+      };
+      this.nextRequestId += 1;
+
+      if (this.inFlight) {
+        this.queued?.resolve(null);
+        this.queued = request;
+        return;
+      }
+
+      this.dispatch(request);
+    });
+  }
+
+  // Flooded land area at each level, from the same connected flood levels the
+  // solves use, so barriers are included.
+  async buildCurve(levels: number[], grid: FloodStatsGrid): Promise<Float64Array | null> {
+    const rowCellAreas = grid.rowCellAreas.slice();
+    const response = await this.request(
+      (requestId) => ({
+        type: "curve",
+        requestId,
+        levels: Float64Array.from(levels),
+        window: grid.window,
+        rowCellAreas,
+      }),
+      [rowCellAreas.buffer]
+    );
+
+    return response?.type === "curve" ? response.areas : null;
+  }
+
+  // Connected flood levels at the given cells, read from the raster the worker
+  // already holds rather than rebuilt on the main thread.
+  async sampleFloodLevels(indices: Uint32Array): Promise<Float32Array | null> {
+    const copy = indices.slice();
+    const response = await this.request(
+      (requestId) => ({ type: "sample", requestId, indices: copy }),
+      [copy.buffer]
+    );
+
+    return response?.type === "sample" ? response.levels : null;
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+
+    this.disposed = true;
+    this.worker.onmessage = null;
+    this.worker.onerror = null;
+    this.worker.terminate();
+
+    this.inFlight?.resolve(null);
+    this.queued?.resolve(null);
+    this.inFlight = null;
+    this.queued = null;
+    this.replies.forEach((reply) => reply.resolve(null));
+    this.replies.clear();
+  }
+
+  private request(
+    build: (requestId: number) => FloodSolverRequest,
+    transfer: Transferable[]
+  ): Promise<FloodSolverResponse | null> {
+    if (this.disposed) {
+      return Promise.reject(new Error("Flood solver has been disposed"));
+    }
+
+    if (!this.isInitialized()) {
+      return Promise.reject(new Error("Flood solver has not been initialized yet"));
+    }
+
+    return new Promise((resolve, reject) => {
+      const requestId = this.nextRequestId;
+      this.nextRequestId += 1;
+      this.replies.set(requestId, { resolve, reject });
+      this.worker.postMessage(build(requestId), transfer);
+    });
+  }
+
+  private dispatch(request: PendingSolve): void {
+    this.inFlight = request;
+    this.worker.postMessage(
+      {
+        type: "solve",
+        requestId: request.requestId,
+        waterLevel: request.waterLevel,
+      },
+      []
+    );
+  }
+
+  private handleMessage = (event: MessageEvent<FloodSolverResponse>): void => {
+    const response = event.data;
+    const reply = this.replies.get(response.requestId);
+    if (reply) {
+      this.replies.delete(response.requestId);
+      if (response.type === "error") reply.reject(new Error(response.message));
+      else reply.resolve(response);
+      return;
+    }
+
+    const request = this.inFlight;
+    if (!request || request.requestId !== response.requestId) return;
+
+    this.inFlight = null;
+
+    if (response.type === "error") {
+      request.reject(new Error(response.message));
+    } else if (response.type === "mask") {
+      request.resolve({
+        waterLevel: response.waterLevel,
+        mask: response.mask,
+        depth: response.depth,
+        width: this.width,
+        height: this.height,
+      });
+    }
+
+    const next = this.queued;
+    this.queued = null;
+    if (next) {
+      this.dispatch(next);
+    }
+  };
+
+  private handleError = (event: ErrorEvent): void => {
+    const error = new Error(event.message || "Flood solver worker failed");
+
+    this.inFlight?.reject(error);
+    this.queued?.reject(error);
+    this.inFlight = null;
+    this.queued = null;
+    this.replies.forEach((reply) => reply.reject(error));
+    this.replies.clear();
+  };
+}
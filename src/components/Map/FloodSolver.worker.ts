@@ -0,0 +1,128 @@
+import { applyBarrierCells, EMPTY_BARRIER_CELLS, type BarrierCells } from "./FloodBarriers";
+import {
+  buildFloodDepthFromLevels,
+  buildFloodLevelRaster,
+  buildHypsometricCurve,
+  thresholdFloodLevels,
+  type FloodInflow,
+} from "./FloodModel";
+import type { FloodSolverRequest, FloodSolverResponse } from "./FloodSolver";
+
+interface SolverTerrain {
+  elevations: Float32Array;
+  seedMask: Uint8Array | null;
+  inflow: FloodInflow | null;
+  width: number;
+  height: number;
+}
+
+let terrain: SolverTerrain | null = null;
+let barrierCells: BarrierCells = EMPTY_BARRIER_CELLS;
+let floodElevations: Float32Array | null = null;
+let floodLevels: Float32Array | null = null;
+
+function rebuildFloodLevels(): void {
+  if (!terrain) return;
+
+  floodElevations = applyBarrierCells(terrain.elevations, barrierCells);
+  floodLevels = buildFloodLevelRaster(
+    floodElevations,
+    terrain.width,
+    terrain.height,
+    terrain.seedMask,
+    terrain.inflow
+  );
+}
+
+function respond(response: FloodSolverResponse, transfer: Transferable[] = []): void {
+  self.postMessage(response, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<FloodSolverRequest>) => {
+  const request = event.data;
+
+  if (request.type === "init") {
+    terrain = {
+      elevations: request.elevations,
+      seedMask: request.seedMask,
+      inflow: request.inflow,
+      width: request.width,
+      height: request.height,
+    };
+    barrierCells = EMPTY_BARRIER_CELLS;
+    rebuildFloodLevels();
+    return;
+  }
+
+  if (request.type === "barriers") {
+    barrierCells = {
+      indices: request.indices,
+      crestHeights: request.crestHeights,
+    };
+    rebuildFloodLevels();
+    return;
+  }
+
+  if (!floodElevations || !floodLevels) {
+    respond({
+      type: "error",
+      requestId: request.requestId,
+      message: "Flood solver received a level before terrain elevations",
+    });
+    return;
+  }
+
+  if (request.type === "sample") {
+    const raster = floodLevels;
+    const levels = Float32Array.from(request.indices, (index) => raster[index]);
+    respond({ type: "sample", requestId: request.requestId, levels }, [levels.buffer]);
+    return;
+  }
+
+  if (request.type === "curve") {
+    try {
+      const areas = buildHypsometricCurve(
+        floodElevations,
+        floodLevels,
+        terrain?.width ?? 0,
+        request.window,
+        request.rowCellAreas,
+        request.levels
+      );
+      respond({ type: "curve", requestId: request.requestId, areas }, [areas.buffer]);
+    } catch (error) {
+      respond({
+        type: "error",
+        requestId: request.requestId,
+        message: error instanceof Error ? error.message : "Flood curve failed",
+      });
+    }
+    return;
+  }
+
+  try {
+    const mask = thresholdFloodLevels(floodLevels, request.waterLevel);
+    const depth = buildFloodDepthFromLevels(
+      floodElevations,
+      floodLevels,
+      request.waterLevel
+    );
+
+    respond(
+      {
+        type: "mask",
+        requestId: request.requestId,
+        waterLevel: request.waterLevel,
+        mask,
+        depth,
+      },
+      [mask.buffer, depth.buffer]
+    );
+  } catch (error) {
+    respond({
+      type: "error",
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : "Flood solve failed",
+    });
+  }
+};
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { BoundsLike, GridWindow, TerrainRgbModel } from "./FloodModel";
+import type { FloodSolution } from "./FloodSolver";
+
+const EARTH_RADIUS_KM = 6371.0088;
+const DEG_TO_RAD = Math.PI / 180;
+
+export interface FloodStatsGrid {
+  width: number;
+  height: number;
+  window: GridWindow;
+  // Area of one cell in each row, in km². Mercator cells shrink towards the
+  // poles, so a plain cell count would overstate northern rows.
+  rowCellAreas: Float64Array;
+}
+
+export interface FloodStats {
+  waterLevel: number;
+  previousWaterLevel: number | null;
+  floodedKm2: number;
+  landKm2: number;
+  floodedShare: number;
+  newlyFloodedKm2: number;
+}
+
+// Exact area of the spherical rectangle each row of cells covers.
+export function getRowCellAreas(model: TerrainRgbModel): Float64Array {
+  const { width, height } = model.metadata;
+  const west = model.gridPixelToLngLat(0, 0).lng;
+  const east = model.gridPixelToLngLat(width, 0).lng;
+  const cellWidth = ((east - west) / width) * DEG_TO_RAD;
+  const areas = new Float64Array(height);
+
+  let top = Math.sin(model.gridPixelToLngLat(0, 0).lat * DEG_TO_RAD);
+  for (let y = 0; y < height; y += 1) {
+    const bottom = Math.sin(model.gridPixelToLngLat(0, y + 1).lat * DEG_TO_RAD);
+    areas[y] = EARTH_RADIUS_KM * EARTH_RADIUS_KM * cellWidth * Math.abs(top - bottom);
+    top = bottom;
+  }
+
+  return areas;
+}
+
+// The grid is whole tiles, so it reaches past the region; stats only count the
+// cells inside the region's bounds.
+export function getRegionWindow(model: TerrainRgbModel, bounds: BoundsLike): GridWindow {
+  const { width, height } = model.metadata;
+  const topLeft = model.lngLatToGridPixel(bounds.west, bounds.north);
+  const bottomRight = model.lngLatToGridPixel(bounds.east, bounds.south);
+  const clampTo = (value: number, max: number) => Math.max(0, Math.min(max, value));
+
+  return {
+    minX: clampTo(Math.floor(topLeft.x), width),
+    minY: clampTo(Math.floor(topLeft.y), height),
+    maxX: clampTo(Math.ceil(bottomRight.x), width),
+    maxY: clampTo(Math.ceil(bottomRight.y), height),
+  };
+}
+
+export function createFloodStatsGrid(model: TerrainRgbModel, bounds: BoundsLike): FloodStatsGrid {
+  return {
+    width: model.metadata.width,
+    height: model.metadata.height,
+    window: getRegionWindow(model, bounds),
+    rowCellAreas: getRowCellAreas(model),
+  };
+}
+
+// Land is any cell above the datum, so open water that is always in the mask
+// is not counted as flooded. Newly flooded cells are land that is wet now but
+// was dry in the `previous` solution.
+export function computeFloodStats(
+  grid: FloodStatsGrid,
+  elevations: Float32Array,
+  solution: Pick<FloodSolution, "mask" | "waterLevel">,
+  previous: Pick<FloodSolution, "mask" | "waterLevel"> | null
+): FloodStats {
+  const { width, window, rowCellAreas } = grid;
+  const { mask } = solution;
+  const previousMask = previous?.mask ?? null;
+  let landKm2 = 0;
+  let floodedKm2 = 0;
+  let newlyFloodedKm2 = 0;
+
+  for (let y = window.minY; y < window.maxY; y += 1) {
+    const cellArea = rowCellAreas[y];
+    let land = 0;
+    let flooded = 0;
+    let newlyFlooded = 0;
+
+    for (let index = y * width + window.minX; index < y * width + window.maxX; index += 1) {
+      if (!(elevations[index] > 0)) continue;
+
+      land += 1;
+      if (mask[index] === 0) continue;
+
+      flooded += 1;
+      if (previousMask && previousMask[index] === 0) newlyFlooded += 1;
+    }
+
+    landKm2 += land * cellArea;
+    floodedKm2 += flooded * cellArea;
+    newlyFloodedKm2 += newlyFlooded * cellArea;
+  }
+
+  return {
+    waterLevel: solution.waterLevel,
+    previousWaterLevel: previous?.waterLevel ?? null,
+    floodedKm2,
+    landKm2,
+    floodedShare: landKm2 > 0 ? floodedKm2 / landKm2 : 0,
+    newlyFloodedKm2,
+  };
+}
+
+// Recomputes with every new solution. A re-solve at the same level (after a
+// barrier edit) is still compared with the last different level.
+export function useFloodStats(
+  model: TerrainRgbModel | null,
+  solution: FloodSolution | null,
+  bounds: BoundsLike
+): FloodStats | null {
+  const [stats, setStats] = useState<FloodStats | null>(null);
+  const current = useRef<FloodSolution | null>(null);
+  const previous = useRef<FloodSolution | null>(null);
+
+  const grid = useMemo(
+    () => (model ? createFloodStatsGrid(model, bounds) : null),
+    [bounds, model]
+  );
+
+  useEffect(() => {
+    current.current = null;
+    previous.current = null;
+  }, [grid]);
+
+  useEffect(() => {
+    if (
+      !model ||
+      !grid ||
+      !solution ||
+      solution.width !== grid.width ||
+      solution.height !== grid.height
+    ) {
+      setStats(null);
+      return;
+    }
+
+    if (current.current && current.current.waterLevel !== solution.waterLevel) {
+      previous.current = current.current;
+    }
+    current.current = solution;
+
+    setStats(computeFloodStats(grid, model.getFloodElevations(), solution, previous.current));
+  }, [grid, model, solution]);
+
+  return stats;
+}
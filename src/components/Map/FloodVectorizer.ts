@@ -0,0 +1,305 @@
+import type { MultiPolygon, Polygon, Position } from "geojson";
+
+export const DEFAULT_OUTLINE_TOLERANCE = 0.75;
+
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+export type GridRing = GridPoint[];
+
+// Directed segments for each marching-squares case (corner bits: top-left 8,
+// top-right 4, bottom-right 2, bottom-left 1), as pairs of square edges
+// (0 top, 1 right, 2 bottom, 3 left) oriented so water stays on the right.
+// Saddles join the wet corners because the flood fill is 8-connected.
+const CASE_SEGMENTS: ReadonlyArray<ReadonlyArray<readonly [number, number]>> = [
+  [],
+  [[3, 2]],
+  [[2, 1]],
+  [[3, 1]],
+  [[1, 0]],
+  [
+    [3, 0],
+    [1, 2],
+  ],
+  [[2, 0]],
+  [[3, 0]],
+  [[0, 3]],
+  [[0, 2]],
+  [
+    [0, 1],
+    [2, 3],
+  ],
+  [[0, 1]],
+  [[1, 3]],
+  [[1, 2]],
+  [[2, 3]],
+  [],
+];
+
+// Edge midpoints in half-cell units from the square's top-left corner.
+const EDGE_OFFSETS: ReadonlyArray<readonly [number, number]> = [
+  [1, 0],
+  [2, 1],
+  [1, 2],
+  [0, 1],
+];
+
+// Traces the boundaries between wet and dry cell centers. Cells outside the
+// grid count as dry, so every ring closes. Coordinates are grid pixels, and
+// outer rings run clockwise on screen (positive area) while holes run the
+// other way.
+export function traceMaskContours(
+  mask: Uint8Array,
+  width: number,
+  height: number
+): GridRing[] {
+  if (mask.length !== width * height) {
+    throw new Error("Flood mask does not match the grid size");
+  }
+
+  const stride = 2 * width + 3;
+  const encode = (halfX: number, halfY: number) => (halfY + 2) * stride + halfX + 2;
+  const isWet = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] !== 0;
+
+  const next = new Map<number, number>();
+
+  for (let y = -1; y < height; y += 1) {
+    for (let x = -1; x < width; x += 1) {
+      const code =
+        (isWet(x, y) ? 8 : 0) |
+        (isWet(x + 1, y) ? 4 : 0) |
+        (isWet(x + 1, y + 1) ? 2 : 0) |
+        (isWet(x, y + 1) ? 1 : 0);
+
+      for (const [from, to] of CASE_SEGMENTS[code]) {
+        next.set(
+          encode(2 * x + EDGE_OFFSETS[from][0], 2 * y + EDGE_OFFSETS[from][1]),
+          encode(2 * x + EDGE_OFFSETS[to][0], 2 * y + EDGE_OFFSETS[to][1])
+        );
+      }
+    }
+  }
+
+  const rings: GridRing[] = [];
+
+  for (const start of next.keys()) {
+    const ring: GridRing = [];
+    let key: number | undefined = start;
+
+    while (key !== undefined) {
+      ring.push({
+        x: ((key % stride) - 2) / 2 + 0.5,
+        y: (Math.floor(key / stride) - 2) / 2 + 0.5,
+      });
+
+      const following: number | undefined = next.get(key);
+      next.delete(key);
+      key = following === start ? undefined : following;
+    }
+
+    rings.push(ring);
+  }
+
+  return rings;
+}
+
+function getRingArea(ring: GridRing): number {
+  let area = 0;
+
+  for (let index = 0; index < ring.length; index += 1) {
+    const current = ring[index];
+    const following = ring[(index + 1) % ring.length];
+    area += current.x * following.y - following.x * current.y;
+  }
+
+  return area / 2;
+}
+
+interface Shell {
+  ring: GridRing;
+  area: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  holes: GridRing[];
+}
+
+function createShell(ring: GridRing, area: number): Shell {
+  const shell: Shell = {
+    ring,
+    area,
+    minX: Infinity,
+    maxX: -Infinity,
+    minY: Infinity,
+    maxY: -Infinity,
+    holes: [],
+  };
+
+  for (const point of ring) {
+    shell.minX = Math.min(shell.minX, point.x);
+    shell.maxX = Math.max(shell.maxX, point.x);
+    shell.minY = Math.min(shell.minY, point.y);
+    shell.maxY = Math.max(shell.maxY, point.y);
+  }
+
+  return shell;
+}
+
+function isInsideShell(point: GridPoint, shell: Shell): boolean {
+  if (
+    point.x < shell.minX ||
+    point.x > shell.maxX ||
+    point.y < shell.minY ||
+    point.y > shell.maxY
+  ) {
+    return false;
+  }
+
+  const ring = shell.ring;
+  let inside = false;
+
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index++) {
+    const a = ring[index];
+    const b = ring[previous];
+
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function getSegmentDistanceSquared(point: GridPoint, start: GridPoint, end: GridPoint): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared)
+        );
+  const offsetX = point.x - (start.x + t * dx);
+  const offsetY = point.y - (start.y + t * dy);
+
+  return offsetX * offsetX + offsetY * offsetY;
+}
+
+// Douglas-Peucker on a closed ring. Rings that would collapse are kept as-is
+// so single flooded cells do not vanish from the outline.
+export function simplifyRing(ring: GridRing, tolerance: number): GridRing {
+  if (ring.length <= 4 || tolerance <= 0) return ring;
+
+  const toleranceSquared = tolerance * tolerance;
+  const pointAt = (index: number) => ring[index % ring.length];
+
+  // Split the loop at the vertex farthest from the first so both halves are
+  // open paths.
+  let split = 0;
+  let farthest = -1;
+  for (let index = 1; index < ring.length; index += 1) {
+    const dx = ring[index].x - ring[0].x;
+    const dy = ring[index].y - ring[0].y;
+    if (dx * dx + dy * dy > farthest) {
+      farthest = dx * dx + dy * dy;
+      split = index;
+    }
+  }
+
+  const keep = new Uint8Array(ring.length);
+  keep[0] = 1;
+  keep[split] = 1;
+
+  const spans: Array<[number, number]> = [
+    [0, split],
+    [split, ring.length],
+  ];
+
+  while (spans.length > 0) {
+    const [first, last] = spans.pop() as [number, number];
+    let worst = -1;
+    let worstDistance = toleranceSquared;
+
+    for (let index = first + 1; index < last; index += 1) {
+      const distance = getSegmentDistanceSquared(
+        ring[index],
+        pointAt(first),
+        pointAt(last)
+      );
+
+      if (distance > worstDistance) {
+        worst = index;
+        worstDistance = distance;
+      }
+    }
+
+    if (worst !== -1) {
+      keep[worst] = 1;
+      spans.push([first, worst], [worst, last]);
+    }
+  }
+
+  const simplified = ring.filter((_, index) => keep[index] === 1);
+  return simplified.length >= 3 ? simplified : ring;
+}
+
+// Turns a flood mask into lng/lat polygons with holes. Outer rings come out
+// counter-clockwise and holes clockwise, as GeoJSON expects.
+export function vectorizeFloodMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  toLngLat: (x: number, y: number) => { lng: number; lat: number },
+  tolerance: number = DEFAULT_OUTLINE_TOLERANCE
+): Polygon | MultiPolygon | null {
+  const shells: Shell[] = [];
+  const holes: GridRing[] = [];
+
+  for (const ring of traceMaskContours(mask, width, height)) {
+    const area = getRingArea(ring);
+
+    if (area > 0) {
+      shells.push(createShell(ring, area));
+    } else {
+      holes.push(ring);
+    }
+  }
+
+  // Smallest first, so a hole lands in the innermost shell around it.
+  shells.sort((a, b) => a.area - b.area);
+
+  for (const hole of holes) {
+    shells.find((shell) => isInsideShell(hole[0], shell))?.holes.push(hole);
+  }
+
+  // Grid rows run south, so the winding flips on the way to lng/lat.
+  const toPositions = (ring: GridRing): Position[] => {
+    const positions = simplifyRing(ring, tolerance)
+      .map((point): Position => {
+        const { lng, lat } = toLngLat(point.x, point.y);
+        return [lng, lat];
+      })
+      .reverse();
+
+    positions.push(positions[0]);
+    return positions;
+  };
+
+  const polygons = shells
+    .reverse()
+    .map((shell) => [shell.ring, ...shell.holes].map(toPositions));
+
+  if (polygons.length === 0) return null;
+  if (polygons.length === 1) return { type: "Polygon", coordinates: polygons[0] };
+
+  return { type: "MultiPolygon", coordinates: polygons };
+}
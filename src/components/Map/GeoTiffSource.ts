@@ -0,0 +1,225 @@
+import { fromArrayBuffer, fromBlob, fromUrl } from "geotiff";
+import type { ElevationSource } from "./ElevationSources";
+import { sampleGridBilinear } from "./ElevationUtils";
+import { worldPixelToLngLat } from "./FloodModel";
+
+export type GeoTiffInput = string | Blob | ArrayBuffer;
+
+export interface DemRaster {
+  data: Float32Array;
+  width: number;
+  height: number;
+  epsg: number;
+  originX: number;
+  originY: number;
+  resolutionX: number;
+  resolutionY: number;
+}
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const UTM_SCALE = 0.9996;
+
+function getUtmZone(epsg: number): { zone: number; south: boolean } | null {
+  // WGS 84 / UTM north and south, NAD83 / UTM north.
+  if (epsg >= 32601 && epsg <= 32660) return { zone: epsg - 32600, south: false };
+  if (epsg >= 32701 && epsg <= 32760) return { zone: epsg - 32700, south: true };
+  if (epsg >= 26901 && epsg <= 26923) return { zone: epsg - 26900, south: false };
+  return null;
+}
+
+function projectUtm(
+  lng: number,
+  lat: number,
+  zone: number,
+  south: boolean
+): { x: number; y: number } {
+  const e2 = WGS84_F * (2 - WGS84_F);
+  const e4 = e2 * e2;
+  const e6 = e4 * e2;
+  const ep2 = e2 / (1 - e2);
+
+  const phi = (lat * Math.PI) / 180;
+  const lambda0 = (((zone - 1) * 6 - 180 + 3) * Math.PI) / 180;
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = WGS84_A / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = ep2 * cosPhi * cosPhi;
+  const a = cosPhi * ((lng * Math.PI) / 180 - lambda0);
+  const m =
+    WGS84_A *
+    ((1 - e2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi));
+
+  const x =
+    UTM_SCALE *
+      n *
+      (a +
+        ((1 - t + c) * a ** 3) / 6 +
+        ((5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5) / 120) +
+    500000;
+  const y =
+    UTM_SCALE *
+    (m +
+      n *
+        tanPhi *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6) / 720));
+
+  return { x, y: south ? y + 10000000 : y };
+}
+
+export function isSupportedDemProjection(epsg: number): boolean {
+  return epsg === 4326 || epsg === 4269 || epsg === 3857 || getUtmZone(epsg) !== null;
+}
+
+export function projectLngLat(
+  lng: number,
+  lat: number,
+  epsg: number
+): { x: number; y: number } {
+  if (epsg === 4326 || epsg === 4269) {
+    return { x: lng, y: lat };
+  }
+
+  if (epsg === 3857) {
+    const latRad = (lat * Math.PI) / 180;
+    return {
+      x: (WGS84_A * lng * Math.PI) / 180,
+      y: WGS84_A * Math.log(Math.tan(Math.PI / 4 + latRad / 2)),
+    };
+  }
+
+  const utm = getUtmZone(epsg);
+  if (utm) {
+    return projectUtm(lng, lat, utm.zone, utm.south);
+  }
+
+  throw new Error(
+    `Unsupported DEM projection EPSG:${epsg}; reproject to EPSG:4326, EPSG:3857 or UTM first`
+  );
+}
+
+export function sampleDemRaster(raster: DemRaster, lng: number, lat: number): number {
+  const projected = projectLngLat(lng, lat, raster.epsg);
+  return sampleGridBilinear(
+    raster.data,
+    raster.width,
+    raster.height,
+    (projected.x - raster.originX) / raster.resolutionX,
+    (projected.y - raster.originY) / raster.resolutionY
+  );
+}
+
+async function openGeoTiff(input: GeoTiffInput) {
+  if (typeof input === "string") return fromUrl(input);
+  if (input instanceof ArrayBuffer) return fromArrayBuffer(input);
+  return fromBlob(input);
+}
+
+export async function readDemRaster(input: GeoTiffInput): Promise<DemRaster> {
+  const tiff = await openGeoTiff(input);
+  const image = await tiff.getImage();
+
+  const geoKeys = image.getGeoKeys() ?? {};
+  const epsg = Number(geoKeys.ProjectedCSTypeGeoKey ?? geoKeys.GeographicTypeGeoKey);
+  if (!Number.isFinite(epsg) || !isSupportedDemProjection(epsg)) {
+    throw new Error(
+      `Unsupported DEM projection EPSG:${epsg}; reproject to EPSG:4326, EPSG:3857 or UTM first`
+    );
+  }
+
+  const values = await image.readRasters({ samples: [0], interleave: true });
+  const noData = image.getGDALNoData();
+  const data = new Float32Array(values.length);
+
+  for (let index = 0; index < values.length; index += 1) {
+    const value = values[index];
+    const isNoData = noData !== null && Math.fround(value) === Math.fround(noData);
+    data[index] = isNoData || !Number.isFinite(value) ? Number.NaN : value;
+  }
+
+  const [originX, originY] = image.getOrigin();
+  const [resolutionX, resolutionY] = image.getResolution();
+
+  return {
+    data,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    epsg,
+    originX,
+    originY,
+    resolutionX,
+    resolutionY,
+  };
+}
+
+export class GeoTiffElevationSource implements ElevationSource {
+  readonly id = "geotiff";
+  readonly name = "GeoTIFF DEM";
+  readonly verticalDatum?: string;
+
+  private readonly input: GeoTiffInput;
+  private readonly fallback: ElevationSource | null;
+  private raster: Promise<DemRaster> | null = null;
+
+  constructor(
+    input: GeoTiffInput,
+    fallback: ElevationSource | null = null,
+    verticalDatum?: string
+  ) {
+    this.input = input;
+    this.fallback = fallback;
+    this.verticalDatum = verticalDatum;
+  }
+
+  getRaster(): Promise<DemRaster> {
+    if (!this.raster) {
+      this.raster = readDemRaster(this.input);
+      this.raster.catch(() => {
+        this.raster = null;
+      });
+    }
+
+    return this.raster;
+  }
+
+  async loadTile(zoom: number, x: number, y: number, tileSize: number): Promise<Float32Array> {
+    const raster = await this.getRaster();
+    const elevations = new Float32Array(tileSize * tileSize);
+    let missing = 0;
+
+    for (let row = 0; row < tileSize; row += 1) {
+      for (let column = 0; column < tileSize; column += 1) {
+        const { lng, lat } = worldPixelToLngLat(
+          x * tileSize + column + 0.5,
+          y * tileSize + row + 0.5,
+          zoom,
+          tileSize
+        );
+        const elevation = sampleDemRaster(raster, lng, lat);
+
+        elevations[row * tileSize + column] = elevation;
+        if (!Number.isFinite(elevation)) missing += 1;
+      }
+    }
+
+    if (missing > 0 && this.fallback) {
+      const fallbackTile = await this.fallback.loadTile(zoom, x, y, tileSize);
+
+      for (let index = 0; index < elevations.length; index += 1) {
+        if (!Number.isFinite(elevations[index])) {
+          elevations[index] = fallbackTile[index];
+        }
+      }
+    }
+
+    return elevations;
+  }
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useEffect, useState, type RefObject } from "react";
+import type { RegionDefinition, RegionWaterLevels } from "@/lib/regions";
+import type { TerrainRgbModel } from "./FloodModel";
+import type { FloodSolver } from "./FloodSolver";
+import { createFloodStatsGrid } from "./FloodStats";
+
+// Matches the water level slider's step.
+const CURVE_LEVEL_STEP = 1;
+
+export interface HypsometricCurve {
+  levels: number[];
+  areasKm2: number[];
+}
+
+export function getCurveLevels(
+  waterLevels: RegionWaterLevels,
+  step: number = CURVE_LEVEL_STEP
+): number[] {
+  const count = Math.floor((waterLevels.max - waterLevels.min) / step + 1e-9) + 1;
+  const levels = Array.from({ length: count }, (_, index) => waterLevels.min + index * step);
+  if (levels[levels.length - 1] < waterLevels.max) levels.push(waterLevels.max);
+
+  return levels;
+}
+
+export interface HypsometricCurveState {
+  curve: HypsometricCurve | null;
+  error: string | null;
+}
+
+// Indices of the levels that end the largest single-step rises, biggest first.
+export function findCurveJumps(curve: HypsometricCurve, count: number = 3): number[] {
+  return curve.areasKm2
+    .map((area, index) => ({ index, rise: index > 0 ? area - curve.areasKm2[index - 1] : 0 }))
+    .filter(({ rise }) => rise > 0)
+    .sort((a, b) => b.rise - a.rise)
+    .slice(0, count)
+    .map(({ index }) => index);
+}
+
+// One curve per region, kept with the barriers it was built for (see
+// getBarrierFloodKey), so switching back to a region does not sweep it again.
+const curveCache = new Map<string, { barrierKey: string; curve: HypsometricCurve }>();
+
+export function useHypsometricCurve(
+  solverRef: RefObject<FloodSolver | null>,
+  model: TerrainRgbModel | null,
+  region: RegionDefinition,
+  barrierKey: string
+): HypsometricCurveState {
+  const [state, setState] = useState<HypsometricCurveState>({ curve: null, error: null });
+
+  useEffect(() => {
+    const solver = solverRef.current;
+    if (!model || !solver) {
+      setState({ curve: null, error: null });
+      return;
+    }
+
+    const cached = curveCache.get(region.id);
+    if (cached?.barrierKey === barrierKey) {
+      setState({ curve: cached.curve, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    const levels = getCurveLevels(region.waterLevels);
+    setState({ curve: null, error: null });
+
+    solver
+      .buildCurve(levels, createFloodStatsGrid(model, region.bounds))
+      .then((areas) => {
+        if (!areas) return;
+
+        const built = { levels, areasKm2: Array.from(areas) };
+        curveCache.set(region.id, { barrierKey, curve: built });
+        if (!cancelled) setState({ curve: built, error: null });
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : "Flood curve failed";
+        if (!cancelled) setState({ curve: null, error: message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [barrierKey, model, region, solverRef]);
+
+  return state;
+}
@@ -2,12 +2,47 @@
 
 import { useCallback, useEffect, useRef, useState } from "react";
 import mapboxgl from "mapbox-gl";
+import type { MultiPolygon, Polygon } from "geojson";
 import "mapbox-gl/dist/mapbox-gl.css";
-import { useStore } from "@/lib/store";
+import { isScenePlaying, selectScene, useStore } from "@/lib/store";
+import { usePersistedSettings } from "@/hooks/use-persisted-settings";
+import { SCENE_URL_DEBOUNCE_MS, useSceneUrl } from "@/hooks/use-scene-url";
+import { useSharedScenario } from "@/hooks/use-shared-scenario";
 import { ElevationTooltip, useElevationTooltip } from "./ElevationTooltip";
 import { BuildingTooltip, useBuildingTooltip } from "./BuildingTooltip";
+import { useBarrierDrawing } from "./BarrierDrawing";
+import { getBarrierFloodKey } from "./FloodBarriers";
 import { ConnectedWaterLayer } from "./ConnectedWaterLayer";
-import { TerrainRgbModel } from "./FloodModel";
+import { DEFAULT_TERRAIN_ZOOM, DEFAULT_TILE_SIZE, TerrainRgbModel } from "./FloodModel";
+import {
+  createElevationSource,
+  SyntheticElevationSource,
+  type ElevationSource,
+} from "./ElevationSources";
+import type { ElevationStats } from "./ElevationUtils";
+import { CachedElevationSource, getTerrainTileStore } from "./TileStore";
+import { FloodSolver, type FloodSolution } from "./FloodSolver";
+import { useFloodOutline } from "./FloodOutline";
+import { useFloodStats } from "./FloodStats";
+import { useHypsometricCurve } from "./HypsometricCurve";
+import { useViewportDetail, type DetailTerrain } from "./ViewportDetail";
+import type { TimelineSample } from "./CameraTimeline";
+import type { FloodExportContext, FloodExportFile } from "./FloodExport";
+import { exportStoryboardPng } from "./StoryboardExport";
+import {
+  exportFloodSequence,
+  getCameraPath,
+  type SequenceRequest,
+} from "./SequenceExport";
+import { getRegion, type RegionCamera } from "@/lib/regions";
+import type { CameraShot } from "@/lib/shots";
+import type { ScenarioInput } from "@/lib/scenarios";
+import { TerrainCacheControl } from "@/components/ui/TerrainCacheControl";
+import { ExportMenu } from "@/components/ui/ExportMenu";
+import { FloodStatsPanel } from "@/components/ui/FloodStatsPanel";
+import { HypsometricChart } from "@/components/ui/HypsometricChart";
+import { ShotList } from "@/components/ui/ShotList";
+import { TimelineEditor } from "@/components/ui/TimelineEditor";
 
 mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || "";
 
@@ -17,37 +52,229 @@ function getFirstSymbolLayerId(map: mapboxgl.Map): string | undefined {
     .layers?.find((layer) => layer.type === "symbol")?.id;
 }
 
-export function MapContainer() {
+function createTerrainSource(): ElevationSource {
+  const options = {
+    geoTiffUrl: process.env.NEXT_PUBLIC_GEOTIFF_URL,
+    localEncoding: process.env.NEXT_PUBLIC_LOCAL_TILE_ENCODING,
+    verticalDatum: process.env.NEXT_PUBLIC_ELEVATION_DATUM,
+  };
+  const source = createElevationSource(
+    process.env.NEXT_PUBLIC_ELEVATION_SOURCE,
+    mapboxgl.accessToken || "",
+    options
+  );
+
+  if (source instanceof SyntheticElevationSource) return source;
+
+  const namespace = [source.id, options.geoTiffUrl, options.localEncoding]
+    .filter(Boolean)
+    .join(":");
+  return new CachedElevationSource(source, getTerrainTileStore(), namespace);
+}
+
+function cameraMatches(a: RegionCamera, b: RegionCamera): boolean {
+  const bearingDelta = Math.abs(((((a.bearing - b.bearing) % 360) + 540) % 360) - 180);
+  return (
+    Math.abs(a.center[0] - b.center[0]) < 1e-6 &&
+    Math.abs(a.center[1] - b.center[1]) < 1e-6 &&
+    Math.abs(a.zoom - b.zoom) < 1e-3 &&
+    Math.abs(a.pitch - b.pitch) < 0.05 &&
+    bearingDelta < 0.05
+  );
+}
+
+function showSolution(layer: ConnectedWaterLayer, solution: FloodSolution): void {
+  layer.setWaterLevel(solution.waterLevel);
+  layer.updateMask(solution.mask, solution.width, solution.height, solution.depth);
+}
+
+// With a shared scenario the map is read-only: it shows that scenario, leaves
+// the saved settings and URL alone, and has no editing or export controls.
+export function MapContainer({ sharedScenario }: { sharedScenario?: ScenarioInput } = {}) {
+  const readOnly = sharedScenario !== undefined;
   const mapContainer = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
   const terrainModel = useRef<TerrainRgbModel | null>(null);
   const waterLayer = useRef<ConnectedWaterLayer | null>(null);
+  const floodSolver = useRef<FloodSolver | null>(null);
+  const floodSolution = useRef<FloodSolution | null>(null);
+  const detailTerrain = useRef<DetailTerrain | null>(null);
+  const elevationSource = useRef<ElevationSource | null>(null);
   const tooltipCleanupRef = useRef<(() => void) | null>(null);
-  const initialView = useRef({
-    center: useStore.getState().mapCenter,
-    zoom: useStore.getState().mapZoom,
-  });
-  const initialWaterLevel = useRef(useStore.getState().waterLevel);
+  const appliedBarrierKey = useRef(getBarrierFloodKey(useStore.getState().barriers));
 
   const [mapInstance, setMapInstance] = useState<mapboxgl.Map | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [terrainReady, setTerrainReady] = useState(false);
+  const [baseTerrain, setBaseTerrain] = useState<{
+    model: TerrainRgbModel;
+    solver: FloodSolver;
+    layer: ConnectedWaterLayer;
+  } | null>(null);
+  const [baseSolution, setBaseSolution] = useState<FloodSolution | null>(null);
   const [isNavigating, setIsNavigating] = useState(false);
-  const [statusMessage, setStatusMessage] = useState("Loading San Francisco terrain…");
+  const [statusMessage, setStatusMessage] = useState("Loading map…");
   const [terrainError, setTerrainError] = useState<string | null>(null);
 
+  const regionId = useStore((state) => state.regionId);
   const waterLevel = useStore((state) => state.waterLevel);
+  // Only what reaches the flood fill; renaming a barrier re-renders nothing here.
+  const barrierKey = useStore((state) => getBarrierFloodKey(state.barriers));
+  const units = useStore((state) => state.units);
 
   const getElevation = useCallback((lng: number, lat: number): number | null => {
-    return terrainModel.current?.getElevation(lng, lat) ?? null;
+    return (
+      detailTerrain.current?.model.getElevation(lng, lat) ??
+      terrainModel.current?.getElevation(lng, lat) ??
+      null
+    );
+  }, []);
+
+  const getFootprintElevation = useCallback(
+    (geometry: Polygon | MultiPolygon): ElevationStats | null => {
+      return (
+        detailTerrain.current?.model.getFootprintElevation(geometry) ??
+        terrainModel.current?.getFootprintElevation(geometry) ??
+        null
+      );
+    },
+    []
+  );
+
+  const getWaterDepth = useCallback((lng: number, lat: number): number | null => {
+    const detail = detailTerrain.current;
+    const detailIndex = detail?.solution ? detail.model.getCellIndex(lng, lat) : null;
+    if (detail?.solution && detailIndex !== null) {
+      return detail.solution.depth[detailIndex] ?? null;
+    }
+
+    if (!terrainModel.current || !floodSolution.current) return null;
+
+    const index = terrainModel.current.getCellIndex(lng, lat);
+    if (index === null) return null;
+
+    return floodSolution.current.depth[index] ?? null;
+  }, []);
+
+  // GIS exports cover the whole region, so they use the base grid even while a
+  // detail patch is shown; the files say so in their metadata.
+  const getExportContext = useCallback((): FloodExportContext | null => {
+    const model = terrainModel.current;
+    const solution = floodSolution.current;
+    const source = elevationSource.current;
+    if (!model || !solution || !source) return null;
+
+    return { model, solution, region: getRegion(useStore.getState().regionId), source };
+  }, []);
+
+  const captureStoryboard = useCallback(async (): Promise<FloodExportFile | null> => {
+    const map = mapRef.current;
+    const layer = waterLayer.current;
+    if (!map || !layer) return null;
+
+    const { regionId: currentRegionId, waterLevel: currentLevel } = useStore.getState();
+    const region = getRegion(currentRegionId);
+    const detailLayer = detailTerrain.current?.layer;
+
+    return exportStoryboardPng(map, detailLayer ? [layer, detailLayer] : [layer], {
+      regionId: region.id,
+      regionName: region.displayName,
+      waterLevel: floodSolution.current?.waterLevel ?? currentLevel,
+    });
+  }, []);
+
+  const getCamera = useCallback((): RegionCamera | null => {
+    const map = mapRef.current;
+    if (!map) return null;
+
+    const { lng, lat } = map.getCenter();
+    return {
+      center: [lng, lat],
+      zoom: map.getZoom(),
+      pitch: map.getPitch(),
+      bearing: map.getBearing(),
+    };
+  }, []);
+
+  const recallShot = useCallback((shot: CameraShot) => {
+    useStore.getState().applyScene({
+      regionId: shot.regionId,
+      waterLevel: shot.waterLevel,
+      camera: shot.camera,
+    });
+  }, []);
+
+  const applyTimelineSample = useCallback((sample: TimelineSample) => {
+    mapRef.current?.jumpTo(sample.camera);
+    useStore.getState().setWaterLevel(sample.waterLevel);
   }, []);
 
+  // Draws a level without changing the store, so a sequence can step through
+  // levels and then return to the slider's.
+  const showWaterLevel = useCallback(async (level: number): Promise<void> => {
+    const solver = floodSolver.current;
+    const layer = waterLayer.current;
+    if (!solver || !layer) {
+      throw new Error("Terrain is not ready");
+    }
+
+    const detail = detailTerrain.current;
+    const [solution, detailSolution] = await Promise.all([
+      solver.solve(level),
+      detail ? detail.solver.solve(level) : Promise.resolve(null),
+    ]);
+    if (!solution || (detail && !detailSolution)) {
+      throw new Error("The water level changed while rendering");
+    }
+
+    showSolution(layer, solution);
+    if (detail && detailSolution) {
+      showSolution(detail.layer, detailSolution);
+    }
+  }, []);
+
+  const renderSequence = useCallback(
+    async (
+      { motion, ...settings }: SequenceRequest,
+      onProgress: (completed: number, total: number) => void
+    ): Promise<FloodExportFile | null> => {
+      const map = mapRef.current;
+      if (!map || !waterLayer.current) return null;
+
+      const camera = getCamera();
+      const cameraPath = camera ? getCameraPath(motion, camera) : [];
+
+      try {
+        return await exportFloodSequence(
+          map,
+          showWaterLevel,
+          getRegion(useStore.getState().regionId),
+          { ...settings, cameraPath },
+          onProgress
+        );
+      } finally {
+        await showWaterLevel(useStore.getState().waterLevel);
+      }
+    },
+    [getCamera, showWaterLevel]
+  );
+
   const { tooltip, attachTooltip } = useElevationTooltip(
     mapInstance,
     getElevation,
+    isNavigating,
+    getWaterDepth
+  );
+  const { buildingData } = useBuildingTooltip(
+    mapInstance,
+    getFootprintElevation,
     isNavigating
   );
-  const { buildingData } = useBuildingTooltip(mapInstance, getElevation, isNavigating);
+  useBarrierDrawing(mapInstance, mapLoaded);
+  // Saved settings are restored first so a shared link can override them.
+  usePersistedSettings(!readOnly);
+  useSceneUrl(SCENE_URL_DEBOUNCE_MS, !readOnly);
+  useSharedScenario(sharedScenario);
 
   useEffect(() => {
     if (!mapContainer.current || mapRef.current) return;
@@ -58,13 +285,14 @@ export function MapContainer() {
       return;
     }
 
+    const view = useStore.getState();
     const map = new mapboxgl.Map({
       container: mapContainer.current,
       style: "mapbox://styles/mapbox/satellite-streets-v12",
-      center: initialView.current.center,
-      zoom: initialView.current.zoom,
-      pitch: 72,
-      bearing: -20,
+      center: view.mapCenter,
+      zoom: view.mapZoom,
+      pitch: view.mapPitch,
+      bearing: view.mapBearing,
       antialias: true,
       dragRotate: true,
       pitchWithRotate: true,
@@ -75,7 +303,7 @@ export function MapContainer() {
     setMapInstance(map);
     map.addControl(new mapboxgl.NavigationControl(), "top-right");
 
-    const initializeMap = async () => {
+    const initializeMap = () => {
       try {
         map.addSource("mapbox-dem", {
           type: "raster-dem",
@@ -132,49 +360,115 @@ export function MapContainer() {
           );
         }
 
-        const model = new TerrainRgbModel(mapboxgl.accessToken || "");
-        terrainModel.current = model;
+        setMapLoaded(true);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to initialize flood scene";
+        setTerrainError(message);
+        setStatusMessage("Initialization failed");
+      }
+    };
+
+    map.once("load", initializeMap);
+
+    return () => {
+      tooltipCleanupRef.current?.();
+      tooltipCleanupRef.current = null;
+      map.remove();
+      mapRef.current = null;
+      setMapInstance(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapInstance;
+    if (!map || !mapLoaded) return;
+
+    const region = getRegion(regionId);
+    const { waterLevel: initialWaterLevel, barriers: initialBarriers } = useStore.getState();
+    let cancelled = false;
+
+    const solver = new FloodSolver();
+    let layer: ConnectedWaterLayer | null = null;
 
-        const layer = new ConnectedWaterLayer(
-          model.metadata.bounds,
-          initialWaterLevel.current
+    const initializeRegion = async () => {
+      try {
+        elevationSource.current ??= createTerrainSource();
+
+        const model = new TerrainRgbModel(
+          elevationSource.current,
+          region.bounds,
+          DEFAULT_TERRAIN_ZOOM,
+          DEFAULT_TILE_SIZE,
+          region.oceanSeeds
         );
+        terrainModel.current = model;
+        appliedBarrierKey.current = getBarrierFloodKey(initialBarriers);
+
+        layer = new ConnectedWaterLayer(model.metadata.bounds, initialWaterLevel, 64, [
+          region.waterLevels.min,
+          region.waterLevels.max,
+        ]);
         waterLayer.current = layer;
         map.addLayer(layer, "3d-buildings");
 
-        setMapLoaded(true);
-        setStatusMessage("Downloading Terrain-RGB tiles…");
+        setTerrainError(null);
+        setStatusMessage(
+          `Loading ${region.displayName} terrain from ${elevationSource.current.name}…`
+        );
 
         await model.load();
+        if (cancelled) return;
+
+        model.setBarriers(initialBarriers);
+        solver.init(model);
+        floodSolver.current = solver;
 
         setStatusMessage("Solving ocean-connected flood extent…");
-        const mask = model.buildFloodMask(initialWaterLevel.current);
-        layer.updateMask(mask, model.metadata.width, model.metadata.height);
+        const solution = await solver.solve(initialWaterLevel);
+        if (cancelled) return;
+
+        if (solution) {
+          floodSolution.current = solution;
+          setBaseSolution(solution);
+          layer.updateMask(solution.mask, solution.width, solution.height, solution.depth);
+        }
 
         setTerrainReady(true);
+        setBaseTerrain({ model, solver, layer });
         setStatusMessage("Ready");
       } catch (error) {
+        if (cancelled) return;
+
         const message =
-          error instanceof Error ? error.message : "Failed to initialize flood scene";
+          error instanceof Error ? error.message : "Failed to load region terrain";
         setTerrainError(message);
         setStatusMessage("Initialization failed");
       }
     };
 
-    map.once("load", () => {
-      void initializeMap();
-    });
+    void initializeRegion();
 
     return () => {
-      tooltipCleanupRef.current?.();
-      tooltipCleanupRef.current = null;
-      map.remove();
-      mapRef.current = null;
+      cancelled = true;
+      solver.dispose();
+      if (floodSolver.current === solver) {
+        floodSolver.current = null;
+      }
+
+      // The map may already be gone when the whole component unmounts.
+      if (layer && mapRef.current === map && map.getLayer(layer.id)) {
+        map.removeLayer(layer.id);
+      }
+
       terrainModel.current = null;
       waterLayer.current = null;
-      setMapInstance(null);
+      floodSolution.current = null;
+      setBaseSolution(null);
+      setTerrainReady(false);
+      setBaseTerrain(null);
     };
-  }, []);
+  }, [mapInstance, mapLoaded, regionId]);
 
   useEffect(() => {
     if (!mapInstance) return;
@@ -212,6 +506,49 @@ export function MapContainer() {
     };
   }, [mapInstance]);
 
+  // The store's camera follows the map once it settles, and the map flies to
+  // any camera the store is given elsewhere (region switches, shots, links).
+  useEffect(() => {
+    if (!mapInstance) return;
+
+    const handleMoveEnd = () => {
+      if (isScenePlaying(useStore.getState())) return;
+
+      const camera = getCamera();
+      if (camera && !cameraMatches(camera, selectScene(useStore.getState()).camera)) {
+        useStore.getState().setMapView(camera);
+      }
+    };
+
+    const unsubscribe = useStore.subscribe((state, previous) => {
+      // Frames of an export or playback only reach the store once it ends.
+      if (isScenePlaying(previous) && !isScenePlaying(state)) {
+        handleMoveEnd();
+        return;
+      }
+      if (
+        state.mapCenter === previous.mapCenter &&
+        state.mapZoom === previous.mapZoom &&
+        state.mapPitch === previous.mapPitch &&
+        state.mapBearing === previous.mapBearing
+      ) {
+        return;
+      }
+
+      const target = selectScene(state).camera;
+      const camera = getCamera();
+      if (camera && !cameraMatches(camera, target)) {
+        mapInstance.flyTo({ ...target, essential: true });
+      }
+    });
+    mapInstance.on("moveend", handleMoveEnd);
+
+    return () => {
+      unsubscribe();
+      mapInstance.off("moveend", handleMoveEnd);
+    };
+  }, [getCamera, mapInstance]);
+
   useEffect(() => {
     if (!mapLoaded || !mapInstance) return;
 
@@ -225,47 +562,123 @@ export function MapContainer() {
   }, [attachTooltip, mapInstance, mapLoaded]);
 
   useEffect(() => {
-    if (!terrainReady || !terrainModel.current || !waterLayer.current) return;
+    if (!terrainReady || !terrainModel.current || !floodSolver.current) return;
+    if (barrierKey === appliedBarrierKey.current) return;
 
-    let cancelled = false;
-    setStatusMessage("Recomputing connected flood extent…");
+    appliedBarrierKey.current = barrierKey;
+    terrainModel.current.setBarriers(useStore.getState().barriers);
+    floodSolver.current.setBarriers(terrainModel.current.getBarrierCells());
+  }, [barrierKey, terrainReady]);
 
-    const timeoutId = window.setTimeout(() => {
-      if (!terrainModel.current || !waterLayer.current || cancelled) return;
+  useEffect(() => {
+    if (!terrainReady || !floodSolver.current || !waterLayer.current) return;
 
-      waterLayer.current.setWaterLevel(waterLevel);
-      const mask = terrainModel.current.buildFloodMask(waterLevel);
+    setStatusMessage("Recomputing connected flood extent…");
 
-      if (cancelled) return;
+    // Superseded levels resolve to null; an in-flight result is still shown so
+    // the water keeps following the slider while it is being dragged.
+    floodSolver.current
+      .solve(waterLevel)
+      .then((solution) => {
+        if (!solution || !waterLayer.current) return;
+
+        floodSolution.current = solution;
+        setBaseSolution(solution);
+        waterLayer.current.setWaterLevel(solution.waterLevel);
+        waterLayer.current.updateMask(
+          solution.mask,
+          solution.width,
+          solution.height,
+          solution.depth
+        );
 
-      waterLayer.current.updateMask(
-        mask,
-        terrainModel.current.metadata.width,
-        terrainModel.current.metadata.height
-      );
-      setStatusMessage("Ready");
-    }, 0);
+        if (useStore.getState().waterLevel === solution.waterLevel) {
+          setStatusMessage("Ready");
+        }
+      })
+      .catch((error: unknown) => {
+        const message =
+          error instanceof Error ? error.message : "Failed to recompute flood extent";
+        setTerrainError(message);
+      });
+  }, [barrierKey, terrainReady, waterLevel]);
 
-    return () => {
-      cancelled = true;
-      window.clearTimeout(timeoutId);
-    };
-  }, [terrainReady, waterLevel]);
+  useViewportDetail(
+    mapInstance,
+    baseTerrain?.model ?? null,
+    baseTerrain?.solver ?? null,
+    baseTerrain?.layer ?? null,
+    getRegion(regionId),
+    detailTerrain
+  );
+  useFloodOutline(mapInstance, mapLoaded, baseTerrain?.model ?? null, baseSolution);
+  const floodStats = useFloodStats(
+    baseTerrain?.model ?? null,
+    baseSolution,
+    getRegion(regionId).bounds
+  );
+  // The shared viewer has no chart, so it skips the sweep.
+  const floodCurve = useHypsometricCurve(
+    floodSolver,
+    terrainReady && !readOnly ? (baseTerrain?.model ?? null) : null,
+    getRegion(regionId),
+    barrierKey
+  );
+
+  const selectCurveLevel = useCallback((level: number) => {
+    const { setWaterLevel, setSelectedPreset } = useStore.getState();
+    setWaterLevel(level);
+    setSelectedPreset(null);
+  }, []);
 
   return (
     <div className="relative h-full w-full">
       <div ref={mapContainer} className="h-full w-full" />
 
-      <div className="pointer-events-none absolute left-4 top-[22rem] z-10">
+      <div className="pointer-events-none absolute left-4 top-[22rem] z-10 space-y-2">
         <div className="rounded-lg bg-black/55 px-3 py-2 text-sm text-white backdrop-blur-sm shadow-lg">
           <div className="font-medium">3D ocean-connected flood view</div>
           <div className="text-white/80">{statusMessage}</div>
           {terrainError && <div className="text-red-300">{terrainError}</div>}
+          <TerrainCacheControl refreshKey={statusMessage} />
         </div>
+        <FloodStatsPanel stats={floodStats} />
+        {!readOnly && terrainReady && (
+          <div className="pointer-events-auto">
+            <HypsometricChart curveState={floodCurve} onSelectLevel={selectCurveLevel} />
+          </div>
+        )}
       </div>
 
-      {mapLoaded && <ElevationTooltip tooltip={tooltip} waterLevel={waterLevel} />}
-      <BuildingTooltip buildingData={buildingData} waterLevel={waterLevel} />
+      {mapLoaded && (
+        <ElevationTooltip tooltip={tooltip} waterLevel={waterLevel} units={units} />
+      )}
+      <BuildingTooltip buildingData={buildingData} waterLevel={waterLevel} units={units} />
+
+      {!readOnly && (
+        <>
+          <div className="absolute bottom-4 left-1/2 z-10 -translate-x-1/2">
+            <TimelineEditor
+              getCamera={getCamera}
+              onSample={applyTimelineSample}
+              disabled={!mapLoaded}
+            />
+          </div>
+
+          <div className="absolute bottom-16 right-4 z-10">
+            <ShotList getCamera={getCamera} onRecall={recallShot} disabled={!mapLoaded} />
+          </div>
+
+          <div className="absolute bottom-4 right-20 z-10">
+            <ExportMenu
+              getContext={getExportContext}
+              captureStoryboard={captureStoryboard}
+              renderSequence={renderSequence}
+              disabled={!terrainReady}
+            />
+          </div>
+        </>
+      )}
     </div>
   );
 }
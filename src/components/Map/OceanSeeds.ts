@@ -0,0 +1,59 @@
+import type { MultiPolygon, Polygon, Position } from "geojson";
+
+export interface OceanSeed {
+  id: string;
+  name: string;
+  geometry: Polygon | MultiPolygon;
+}
+
+function getPolygons(geometry: Polygon | MultiPolygon): Position[][][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+export function rasterizeOceanSeeds(
+  seeds: OceanSeed[],
+  width: number,
+  height: number,
+  toGridPixel: (lng: number, lat: number) => { x: number; y: number }
+): Uint8Array {
+  const seedMask = new Uint8Array(width * height);
+  const crossings: number[] = [];
+
+  for (const seed of seeds) {
+    for (const polygon of getPolygons(seed.geometry)) {
+      const rings = polygon.map((ring) =>
+        ring.map(([lng, lat]) => toGridPixel(lng, lat))
+      );
+
+      for (let y = 0; y < height; y += 1) {
+        const sampleY = y + 0.5;
+        crossings.length = 0;
+
+        for (const ring of rings) {
+          for (let index = 0; index < ring.length; index += 1) {
+            const start = ring[index];
+            const end = ring[(index + 1) % ring.length];
+
+            if ((start.y <= sampleY) === (end.y <= sampleY)) continue;
+
+            const t = (sampleY - start.y) / (end.y - start.y);
+            crossings.push(start.x + t * (end.x - start.x));
+          }
+        }
+
+        crossings.sort((a, b) => a - b);
+
+        for (let index = 0; index + 1 < crossings.length; index += 2) {
+          const fromX = Math.max(0, Math.ceil(crossings[index] - 0.5));
+          const toX = Math.min(width - 1, Math.floor(crossings[index + 1] - 0.5));
+
+          for (let x = fromX; x <= toX; x += 1) {
+            seedMask[y * width + x] = 1;
+          }
+        }
+      }
+    }
+  }
+
+  return seedMask;
+}
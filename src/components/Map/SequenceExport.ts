@@ -0,0 +1,343 @@
+"use client";
+
+import type mapboxgl from "mapbox-gl";
+import type { RegionCamera, RegionDefinition, RegionWaterLevels } from "@/lib/regions";
+import { encodeZip, type ZipEntry } from "@/lib/zip";
+import type { FloodExportFile } from "./FloodExport";
+import { FLOOD_EXTENT_FILL_LAYER_ID, FLOOD_EXTENT_LINE_LAYER_ID } from "./FloodOutline";
+
+export type SequenceFormat = "webm" | "png-zip";
+export type SequenceCameraMotion = "fixed" | "orbit";
+
+export interface SequenceSettings {
+  fromLevel: number;
+  toLevel: number;
+  duration: number;
+  fps: number;
+  format: SequenceFormat;
+  // Zero or one keyframe holds the camera still; more are spread evenly over
+  // the sequence.
+  cameraPath: RegionCamera[];
+}
+
+export type SequenceRequest = Omit<SequenceSettings, "cameraPath"> & {
+  motion: SequenceCameraMotion;
+};
+
+export interface SequenceFrame {
+  index: number;
+  waterLevel: number;
+  camera: RegionCamera | null;
+}
+
+export const MAX_SEQUENCE_FRAMES = 3600;
+
+// PNG frames are all held in memory until the archive is built, and the zip
+// Blob copies them once more. Sized for raw RGBA, since satellite imagery
+// barely compresses.
+const PNG_ZIP_MEMORY_BYTES = 1024 ** 3;
+const PNG_BYTES_PER_PIXEL = 4;
+
+const ORBIT_DEGREES = 90;
+const FRAME_TIMEOUT_MS = 60000;
+const VIDEO_BITS_PER_SECOND = 12_000_000;
+const WEBM_TYPES = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"];
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+// Bearings are interpolated as plain numbers so a path can orbit more than
+// half a turn between keyframes.
+export function interpolateCamera(path: RegionCamera[], t: number): RegionCamera | null {
+  if (path.length === 0) return null;
+  if (path.length === 1) return path[0];
+
+  const position = Math.min(Math.max(t, 0), 1) * (path.length - 1);
+  const index = Math.min(Math.floor(position), path.length - 2);
+  const local = position - index;
+  const from = path[index];
+  const to = path[index + 1];
+
+  return {
+    center: [
+      lerp(from.center[0], to.center[0], local),
+      lerp(from.center[1], to.center[1], local),
+    ],
+    zoom: lerp(from.zoom, to.zoom, local),
+    pitch: lerp(from.pitch, to.pitch, local),
+    bearing: lerp(from.bearing, to.bearing, local),
+  };
+}
+
+export function getCameraPath(
+  motion: SequenceCameraMotion,
+  camera: RegionCamera
+): RegionCamera[] {
+  return motion === "orbit"
+    ? [camera, { ...camera, bearing: camera.bearing + ORBIT_DEGREES }]
+    : [];
+}
+
+export function getMaxPngFrames(width: number, height: number): number {
+  const frameBytes = Math.max(1, width * height * PNG_BYTES_PER_PIXEL);
+  return Math.max(1, Math.min(MAX_SEQUENCE_FRAMES, Math.floor(PNG_ZIP_MEMORY_BYTES / frameBytes)));
+}
+
+// An emptied form field reaches here as NaN, so levels are checked before
+// anything is solved or named after them.
+export function clampSequenceLevels(
+  settings: SequenceSettings,
+  waterLevels: RegionWaterLevels
+): SequenceSettings {
+  if (!Number.isFinite(settings.fromLevel) || !Number.isFinite(settings.toLevel)) {
+    throw new Error("Sequence water levels must be numbers");
+  }
+
+  const clamp = (level: number) => Math.min(Math.max(level, waterLevels.min), waterLevels.max);
+  return { ...settings, fromLevel: clamp(settings.fromLevel), toLevel: clamp(settings.toLevel) };
+}
+
+export function getSequenceFrames(
+  settings: SequenceSettings,
+  waterLevels: RegionWaterLevels,
+  maxFrames: number = MAX_SEQUENCE_FRAMES
+): SequenceFrame[] {
+  const { fromLevel, toLevel, duration, fps, cameraPath } = clampSequenceLevels(
+    settings,
+    waterLevels
+  );
+  if (!(duration > 0) || !(fps > 0)) {
+    throw new Error("Sequence duration and frame rate must be positive");
+  }
+
+  const count = Math.max(1, Math.round(duration * fps));
+  if (count > maxFrames) {
+    throw new Error(
+      maxFrames < MAX_SEQUENCE_FRAMES
+        ? `PNG sequences at this map size are limited to ${maxFrames} frames`
+        : `Sequences are limited to ${maxFrames} frames`
+    );
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const t = count === 1 ? 0 : index / (count - 1);
+    return {
+      index,
+      waterLevel: lerp(fromLevel, toLevel, t),
+      camera: interpolateCamera(cameraPath, t),
+    };
+  });
+}
+
+export function getSequenceFileName(regionId: string, settings: SequenceSettings): string {
+  const level = (value: number) => value.toFixed(1).replace(".", "_");
+  const range = `${level(settings.fromLevel)}-${level(settings.toLevel)}m`;
+  return settings.format === "webm"
+    ? `sea-rise-${regionId}-${range}.webm`
+    : `sea-rise-${regionId}-${range}-frames.zip`;
+}
+
+export function getFrameFileName(index: number): string {
+  return `frame-${String(index + 1).padStart(4, "0")}.png`;
+}
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = window.setTimeout(
+      () => reject(new Error("Timed out rendering a sequence frame")),
+      FRAME_TIMEOUT_MS
+    );
+
+    promise.then(
+      (value) => {
+        window.clearTimeout(timeout);
+        resolve(value);
+      },
+      (error: unknown) => {
+        window.clearTimeout(timeout);
+        reject(error);
+      }
+    );
+  });
+}
+
+function waitForIdle(map: mapboxgl.Map): Promise<void> {
+  return withTimeout(
+    new Promise((resolve) => {
+      map.once("idle", () => resolve());
+      map.triggerRepaint();
+    })
+  );
+}
+
+// The map canvas is not created with preserveDrawingBuffer, so frames are
+// read inside the render event, before the browser clears the buffer.
+function captureOnRender<T>(
+  map: mapboxgl.Map,
+  capture: (canvas: HTMLCanvasElement) => T
+): Promise<T> {
+  return withTimeout(
+    new Promise((resolve, reject) => {
+      map.once("render", () => {
+        try {
+          resolve(capture(map.getCanvas()));
+        } catch (error) {
+          reject(error);
+        }
+      });
+      map.triggerRepaint();
+    })
+  );
+}
+
+function setOutlineVisible(map: mapboxgl.Map, visible: boolean): void {
+  for (const id of [FLOOD_EXTENT_FILL_LAYER_ID, FLOOD_EXTENT_LINE_LAYER_ID]) {
+    if (map.getLayer(id)) {
+      map.setLayoutProperty(id, "visibility", visible ? "visible" : "none");
+    }
+  }
+}
+
+function getWebmType(): string {
+  const type =
+    typeof MediaRecorder === "undefined"
+      ? undefined
+      : WEBM_TYPES.find((candidate) => MediaRecorder.isTypeSupported(candidate));
+  if (!type) {
+    throw new Error("This browser cannot record WebM video");
+  }
+  return type;
+}
+
+async function recordWebm(
+  map: mapboxgl.Map,
+  frames: SequenceFrame[],
+  fps: number,
+  prepareFrame: (frame: SequenceFrame) => Promise<void>
+): Promise<Blob> {
+  const type = getWebmType();
+  const stream = map.getCanvas().captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, {
+    mimeType: type,
+    videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  try {
+    recorder.start();
+    recorder.pause();
+
+    // The recorder timestamps frames by wall clock, so it only runs while a
+    // finished frame is on screen for its share of the duration.
+    for (const frame of frames) {
+      await prepareFrame(frame);
+      recorder.resume();
+      await captureOnRender(map, () => track.requestFrame());
+      await new Promise((resolve) => window.setTimeout(resolve, 1000 / fps));
+      recorder.pause();
+    }
+
+    await new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+      recorder.stop();
+    });
+  } finally {
+    if (recorder.state !== "inactive") recorder.stop();
+    stream.getTracks().forEach((streamTrack) => streamTrack.stop());
+  }
+
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+async function capturePngFrames(
+  map: mapboxgl.Map,
+  frames: SequenceFrame[],
+  settings: SequenceSettings,
+  prepareFrame: (frame: SequenceFrame) => Promise<void>
+): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+
+  for (const frame of frames) {
+    await prepareFrame(frame);
+    // toBlob copies the canvas when it is called; encoding finishes later.
+    const blob = await captureOnRender(
+      map,
+      (canvas) => new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+    );
+    if (!blob) {
+      throw new Error("Failed to encode sequence frame");
+    }
+
+    entries.push({
+      name: getFrameFileName(frame.index),
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+  }
+
+  const manifest = {
+    fps: settings.fps,
+    frames: frames.map((frame) => ({
+      file: getFrameFileName(frame.index),
+      waterLevel: Math.round(frame.waterLevel * 1000) / 1000,
+    })),
+  };
+  entries.push({
+    name: "sequence.json",
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+
+  return new Blob(encodeZip(entries), { type: "application/zip" });
+}
+
+// Steps the water level and camera frame by frame; each frame is captured
+// only once its mask has been uploaded and the map has gone idle.
+export async function exportFloodSequence(
+  map: mapboxgl.Map,
+  applyWaterLevel: (level: number) => Promise<void>,
+  region: RegionDefinition,
+  requested: SequenceSettings,
+  onProgress?: (completed: number, total: number) => void
+): Promise<FloodExportFile> {
+  const settings = clampSequenceLevels(requested, region.waterLevels);
+  const canvas = map.getCanvas();
+  const frames = getSequenceFrames(
+    settings,
+    region.waterLevels,
+    settings.format === "png-zip"
+      ? getMaxPngFrames(canvas.width, canvas.height)
+      : MAX_SEQUENCE_FRAMES
+  );
+  const startCamera = {
+    center: map.getCenter(),
+    zoom: map.getZoom(),
+    pitch: map.getPitch(),
+    bearing: map.getBearing(),
+  };
+
+  const prepareFrame = async (frame: SequenceFrame) => {
+    if (frame.camera) {
+      map.jumpTo(frame.camera);
+    }
+    await applyWaterLevel(frame.waterLevel);
+    await waitForIdle(map);
+    onProgress?.(frame.index + 1, frames.length);
+  };
+
+  setOutlineVisible(map, false);
+  try {
+    const blob =
+      settings.format === "webm"
+        ? await recordWebm(map, frames, settings.fps, prepareFrame)
+        : await capturePngFrames(map, frames, settings, prepareFrame);
+
+    return { fileName: getSequenceFileName(region.id, settings), blob };
+  } finally {
+    map.jumpTo(startCamera);
+    setOutlineVisible(map, true);
+  }
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import mapboxgl from "mapbox-gl";
+import type { ConnectedWaterLayer } from "./ConnectedWaterLayer";
+import type { FloodExportFile } from "./FloodExport";
+
+export const MAX_STORYBOARD_WIDTH = 3840;
+export const MAX_STORYBOARD_HEIGHT = 2160;
+
+const RENDER_TIMEOUT_MS = 60000;
+
+export interface StoryboardSize {
+  width: number;
+  height: number;
+  pixelRatio: number;
+}
+
+export interface StoryboardLegend {
+  regionId: string;
+  regionName: string;
+  waterLevel: number;
+  center: { lng: number; lat: number };
+  bearing: number;
+  pitch: number;
+  date: Date;
+}
+
+// Keeps the on-screen framing and renders it at the largest size that fits
+// the 4K box.
+export function getStoryboardSize(
+  viewWidth: number,
+  viewHeight: number,
+  maxWidth: number = MAX_STORYBOARD_WIDTH,
+  maxHeight: number = MAX_STORYBOARD_HEIGHT
+): StoryboardSize {
+  if (viewWidth <= 0 || viewHeight <= 0) {
+    throw new Error("Map view has no size to export");
+  }
+
+  const pixelRatio = Math.min(maxWidth / viewWidth, maxHeight / viewHeight);
+
+  return {
+    width: Math.floor(viewWidth * pixelRatio),
+    height: Math.floor(viewHeight * pixelRatio),
+    pixelRatio,
+  };
+}
+
+function formatCoordinate(value: number, positive: string, negative: string): string {
+  return `${Math.abs(value).toFixed(4)}° ${value >= 0 ? positive : negative}`;
+}
+
+export function getLegendLines(legend: StoryboardLegend): string[] {
+  const bearing = ((Math.round(legend.bearing) % 360) + 360) % 360;
+
+  return [
+    `${legend.regionName} · water level ${legend.waterLevel.toFixed(1)} m`,
+    `${formatCoordinate(legend.center.lat, "N", "S")}, ${formatCoordinate(
+      legend.center.lng,
+      "E",
+      "W"
+    )}`,
+    `Bearing ${bearing}° · Pitch ${Math.round(legend.pitch)}°`,
+    legend.date.toISOString().slice(0, 10),
+  ];
+}
+
+export function getStoryboardFileName(legend: StoryboardLegend): string {
+  const level = legend.waterLevel.toFixed(1).replace(".", "_");
+  const timestamp = legend.date.toISOString().replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+  return `sea-rise-${legend.regionId}-${level}m-${timestamp}.png`;
+}
+
+function drawLegend(
+  context: CanvasRenderingContext2D,
+  lines: string[],
+  scale: number
+): void {
+  const padding = 14 * scale;
+  const lineHeight = 20 * scale;
+  const swatch = 12 * scale;
+  const margin = 24 * scale;
+
+  context.font = `500 ${14 * scale}px system-ui, sans-serif`;
+  context.textBaseline = "middle";
+
+  const textWidth = Math.max(...lines.map((line) => context.measureText(line).width));
+  const boxWidth = padding * 3 + swatch + textWidth;
+  const boxHeight = padding * 2 + lineHeight * lines.length;
+  const left = margin;
+  const top = context.canvas.height - margin - boxHeight;
+
+  context.fillStyle = "rgba(0, 0, 0, 0.7)";
+  context.beginPath();
+  context.roundRect(left, top, boxWidth, boxHeight, 8 * scale);
+  context.fill();
+
+  context.fillStyle = "#38bdf8";
+  context.fillRect(
+    left + padding,
+    top + padding + (lineHeight - swatch) / 2,
+    swatch,
+    swatch
+  );
+
+  lines.forEach((line, index) => {
+    context.fillStyle = index === 0 ? "#ffffff" : "#cbd5e1";
+    context.fillText(
+      line,
+      left + padding * 2 + swatch,
+      top + padding + lineHeight * (index + 0.5)
+    );
+  });
+}
+
+function waitForMap(map: mapboxgl.Map, event: "load" | "idle"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = window.setTimeout(
+      () => reject(new Error("Timed out rendering the storyboard")),
+      RENDER_TIMEOUT_MS
+    );
+
+    map.once(event, () => {
+      window.clearTimeout(timeout);
+      resolve();
+    });
+  });
+}
+
+// mapbox-gl sizes its canvas from window.devicePixelRatio and has no per-map
+// option, so the ratio is overridden while the hidden map is constructed. It is
+// restored straight after, so the live map never resizes at the export ratio.
+function overrideDevicePixelRatio(pixelRatio: number): () => void {
+  const own = Object.getOwnPropertyDescriptor(window, "devicePixelRatio");
+
+  Object.defineProperty(window, "devicePixelRatio", {
+    configurable: true,
+    get: () => pixelRatio,
+  });
+
+  return () => {
+    if (own) {
+      Object.defineProperty(window, "devicePixelRatio", own);
+    } else {
+      delete (window as { devicePixelRatio?: number }).devicePixelRatio;
+    }
+  };
+}
+
+// Renders the view on a hidden map at a higher pixel ratio, since the visible
+// canvas is neither large enough nor readable without preserveDrawingBuffer.
+async function renderOffscreen(
+  map: mapboxgl.Map,
+  waterLayers: ConnectedWaterLayer[],
+  size: StoryboardSize
+): Promise<HTMLCanvasElement> {
+  const viewCanvas = map.getCanvas();
+  const container = document.createElement("div");
+  container.style.position = "fixed";
+  container.style.left = "-100000px";
+  container.style.top = "0";
+  container.style.width = `${viewCanvas.clientWidth}px`;
+  container.style.height = `${viewCanvas.clientHeight}px`;
+  document.body.appendChild(container);
+
+  const restorePixelRatio = overrideDevicePixelRatio(size.pixelRatio);
+  let offscreen: mapboxgl.Map;
+  try {
+    offscreen = new mapboxgl.Map({
+      container,
+      style: map.getStyle(),
+      center: map.getCenter(),
+      zoom: map.getZoom(),
+      pitch: map.getPitch(),
+      bearing: map.getBearing(),
+      preserveDrawingBuffer: true,
+      interactive: false,
+      attributionControl: false,
+      fadeDuration: 0,
+      antialias: true,
+      maxPitch: 85,
+      // A window resize would re-size the canvas at the restored ratio.
+      trackResize: false,
+    });
+  } catch (error) {
+    container.remove();
+    throw error;
+  } finally {
+    restorePixelRatio();
+  }
+
+  try {
+    await waitForMap(offscreen, "load");
+
+    for (const layer of waterLayers) {
+      offscreen.addLayer(
+        layer.clone(),
+        offscreen.getLayer("3d-buildings") ? "3d-buildings" : undefined
+      );
+    }
+
+    await waitForMap(offscreen, "idle");
+
+    const canvas = document.createElement("canvas");
+    canvas.width = size.width;
+    canvas.height = size.height;
+    canvas.getContext("2d")?.drawImage(offscreen.getCanvas(), 0, 0, size.width, size.height);
+    return canvas;
+  } finally {
+    offscreen.remove();
+    container.remove();
+  }
+}
+
+export async function exportStoryboardPng(
+  map: mapboxgl.Map,
+  waterLayers: ConnectedWaterLayer[],
+  legend: Omit<StoryboardLegend, "center" | "bearing" | "pitch" | "date">
+): Promise<FloodExportFile> {
+  const viewCanvas = map.getCanvas();
+  const size = getStoryboardSize(viewCanvas.clientWidth, viewCanvas.clientHeight);
+  const fullLegend: StoryboardLegend = {
+    ...legend,
+    center: map.getCenter(),
+    bearing: map.getBearing(),
+    pitch: map.getPitch(),
+    date: new Date(),
+  };
+
+  const canvas = await renderOffscreen(map, waterLayers, size);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Failed to create storyboard canvas context");
+  }
+
+  // Size the legend as it would look on a 1080p frame.
+  drawLegend(context, getLegendLines(fullLegend), size.height / 1080);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png")
+  );
+  if (!blob) {
+    throw new Error("Failed to encode storyboard PNG");
+  }
+
+  return { fileName: getStoryboardFileName(fullLegend), blob };
+}
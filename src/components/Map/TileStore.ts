@@ -0,0 +1,242 @@
+import type { ElevationSource } from "./ElevationSources";
+import { getTerrainTileKey, TerrainCache } from "./ElevationUtils";
+
+export const DEFAULT_TILE_STORE_BYTES = 256 * 1024 * 1024;
+
+const TILE_DB_NAME = "flood-map-terrain";
+const TILE_DB_VERSION = 1;
+const TILE_STORE_NAME = "tiles";
+const META_STORE_NAME = "tile-meta";
+const LAST_ACCESS_INDEX = "lastAccess";
+
+export interface TileStoreUsage {
+  tiles: number;
+  bytes: number;
+}
+
+export interface TileStore {
+  get(key: string): Promise<Float32Array | null>;
+  put(key: string, elevations: Float32Array): Promise<void>;
+  clear(): Promise<void>;
+  getUsage(): Promise<TileStoreUsage>;
+}
+
+// Buffers and bookkeeping live in separate stores so eviction never has to
+// read the elevation data back.
+interface TileMeta {
+  key: string;
+  bytes: number;
+  lastAccess: number;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction aborted"));
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error("IndexedDB transaction failed"));
+  });
+}
+
+export class IndexedDbTileStore implements TileStore {
+  private readonly maxBytes: number;
+  private readonly dbName: string;
+  private readonly factory: IDBFactory | null;
+  private database: Promise<IDBDatabase> | null = null;
+  private clock = 0;
+
+  constructor(
+    maxBytes: number = DEFAULT_TILE_STORE_BYTES,
+    dbName: string = TILE_DB_NAME,
+    factory: IDBFactory | null = typeof indexedDB === "undefined" ? null : indexedDB
+  ) {
+    this.maxBytes = maxBytes;
+    this.dbName = dbName;
+    this.factory = factory;
+  }
+
+  isAvailable(): boolean {
+    return this.factory !== null;
+  }
+
+  async get(key: string): Promise<Float32Array | null> {
+    const database = await this.open();
+    if (!database) return null;
+
+    const transaction = database.transaction([TILE_STORE_NAME, META_STORE_NAME], "readwrite");
+    const elevations = (await requestToPromise(
+      transaction.objectStore(TILE_STORE_NAME).get(key)
+    )) as Float32Array | undefined;
+
+    if (elevations) {
+      transaction.objectStore(META_STORE_NAME).put({
+        key,
+        bytes: elevations.byteLength,
+        lastAccess: this.now(),
+      } satisfies TileMeta);
+    }
+
+    await transactionDone(transaction);
+    return elevations ?? null;
+  }
+
+  async put(key: string, elevations: Float32Array): Promise<void> {
+    const database = await this.open();
+    if (!database || elevations.byteLength > this.maxBytes) return;
+
+    const transaction = database.transaction([TILE_STORE_NAME, META_STORE_NAME], "readwrite");
+    transaction.objectStore(TILE_STORE_NAME).put(elevations, key);
+    transaction.objectStore(META_STORE_NAME).put({
+      key,
+      bytes: elevations.byteLength,
+      lastAccess: this.now(),
+    } satisfies TileMeta);
+
+    await transactionDone(transaction);
+    await this.evict(database);
+  }
+
+  async clear(): Promise<void> {
+    const database = await this.open();
+    if (!database) return;
+
+    const transaction = database.transaction([TILE_STORE_NAME, META_STORE_NAME], "readwrite");
+    transaction.objectStore(TILE_STORE_NAME).clear();
+    transaction.objectStore(META_STORE_NAME).clear();
+    await transactionDone(transaction);
+  }
+
+  async getUsage(): Promise<TileStoreUsage> {
+    const database = await this.open();
+    if (!database) return { tiles: 0, bytes: 0 };
+
+    const transaction = database.transaction(META_STORE_NAME, "readonly");
+    const records = (await requestToPromise(
+      transaction.objectStore(META_STORE_NAME).getAll()
+    )) as TileMeta[];
+
+    return {
+      tiles: records.length,
+      bytes: records.reduce((total, record) => total + record.bytes, 0),
+    };
+  }
+
+  // Drops least recently used tiles until the store fits its byte budget.
+  private async evict(database: IDBDatabase): Promise<void> {
+    const transaction = database.transaction([TILE_STORE_NAME, META_STORE_NAME], "readwrite");
+    const metaStore = transaction.objectStore(META_STORE_NAME);
+    const records = (await requestToPromise(
+      metaStore.index(LAST_ACCESS_INDEX).getAll()
+    )) as TileMeta[];
+    let total = records.reduce((sum, record) => sum + record.bytes, 0);
+
+    for (const record of records) {
+      if (total <= this.maxBytes) break;
+
+      transaction.objectStore(TILE_STORE_NAME).delete(record.key);
+      metaStore.delete(record.key);
+      total -= record.bytes;
+    }
+
+    await transactionDone(transaction);
+  }
+
+  // Date.now() can repeat within a burst of writes; keep access order strict.
+  private now(): number {
+    this.clock = Math.max(this.clock + 1, Date.now());
+    return this.clock;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    const factory = this.factory;
+    if (!factory) return Promise.resolve(null);
+
+    if (!this.database) {
+      const request = factory.open(this.dbName, TILE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        database.createObjectStore(TILE_STORE_NAME);
+        database
+          .createObjectStore(META_STORE_NAME, { keyPath: "key" })
+          .createIndex(LAST_ACCESS_INDEX, "lastAccess");
+      };
+
+      this.database = requestToPromise(request);
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+
+    return this.database;
+  }
+}
+
+let sharedTileStore: IndexedDbTileStore | null = null;
+
+export function getTerrainTileStore(): IndexedDbTileStore {
+  if (!sharedTileStore) {
+    sharedTileStore = new IndexedDbTileStore();
+  }
+
+  return sharedTileStore;
+}
+
+export class CachedElevationSource implements ElevationSource {
+  readonly id: string;
+  readonly name: string;
+  readonly verticalDatum?: string;
+
+  private readonly source: ElevationSource;
+  private readonly store: TileStore;
+  private readonly namespace: string;
+  private readonly memory: TerrainCache;
+
+  constructor(
+    source: ElevationSource,
+    store: TileStore,
+    namespace: string = source.id,
+    memory: TerrainCache = new TerrainCache(64)
+  ) {
+    this.source = source;
+    this.store = store;
+    this.namespace = namespace;
+    this.memory = memory;
+    this.id = source.id;
+    this.name = source.name;
+    this.verticalDatum = source.verticalDatum;
+  }
+
+  getTileKey(zoom: number, x: number, y: number, tileSize: number): string {
+    return `${this.namespace}@${tileSize}/${getTerrainTileKey(zoom, x, y)}`;
+  }
+
+  async loadTile(zoom: number, x: number, y: number, tileSize: number): Promise<Float32Array> {
+    const key = this.getTileKey(zoom, x, y, tileSize);
+
+    const remembered = this.memory.get(key);
+    if (remembered) {
+      return new Float32Array(remembered.slice().buffer);
+    }
+
+    // A broken or full store should never block terrain from loading.
+    const stored = await this.store.get(key).catch(() => null);
+    if (stored) {
+      this.memory.set(key, new Uint8Array(stored.slice().buffer));
+      return stored;
+    }
+
+    const elevations = await this.source.loadTile(zoom, x, y, tileSize);
+    this.memory.set(key, new Uint8Array(elevations.slice().buffer));
+    await this.store.put(key, elevations).catch(() => undefined);
+
+    return elevations;
+  }
+}
@@ -0,0 +1,351 @@
+"use client";
+
+import { useEffect, useRef, useState, type MutableRefObject } from "react";
+import mapboxgl from "mapbox-gl";
+import { useStore } from "@/lib/store";
+import type { RegionDefinition } from "@/lib/regions";
+import { ConnectedWaterLayer } from "./ConnectedWaterLayer";
+import { getBarrierFloodKey } from "./FloodBarriers";
+import {
+  boundsToTileRange,
+  DEFAULT_TILE_SIZE,
+  lngLatToWorldPixel,
+  TerrainRgbModel,
+  worldPixelToLngLat,
+  type BoundsLike,
+  type FloodInflow,
+  type TileRange,
+} from "./FloodModel";
+import { FloodSolver, type FloodSolution } from "./FloodSolver";
+
+export const DETAIL_MAX_ZOOM = 15;
+export const DETAIL_MAX_SPAN = 3;
+
+const DETAIL_LAYER_ID = "connected-water-detail-layer";
+
+export interface DetailTileRange {
+  zoom: number;
+  range: TileRange;
+}
+
+export interface DetailTerrain {
+  key: string;
+  model: TerrainRgbModel;
+  solver: FloodSolver;
+  layer: ConnectedWaterLayer;
+  solution: FloodSolution | null;
+}
+
+// Picks the tiles to refine: one zoom above the map (capped), limited to a
+// small window around the camera target so pitched views stay affordable.
+export function getDetailTileRange(
+  viewBounds: BoundsLike,
+  center: { lng: number; lat: number },
+  mapZoom: number,
+  baseZoom: number,
+  maxZoom: number = DETAIL_MAX_ZOOM,
+  maxSpan: number = DETAIL_MAX_SPAN,
+  tileSize: number = DEFAULT_TILE_SIZE
+): DetailTileRange | null {
+  const zoom = Math.min(maxZoom, Math.ceil(mapZoom));
+  if (zoom <= baseZoom) return null;
+
+  const view = boundsToTileRange(viewBounds, zoom, tileSize);
+  const target = lngLatToWorldPixel(center.lng, center.lat, zoom, tileSize);
+  const minX = Math.floor(target.x / tileSize) - Math.floor((maxSpan - 1) / 2);
+  const minY = Math.floor(target.y / tileSize) - Math.floor((maxSpan - 1) / 2);
+
+  const range: TileRange = {
+    minX: Math.max(view.minX, minX),
+    maxX: Math.min(view.maxX, minX + maxSpan - 1),
+    minY: Math.max(view.minY, minY),
+    maxY: Math.min(view.maxY, minY + maxSpan - 1),
+  };
+
+  if (range.minX > range.maxX || range.minY > range.maxY) return null;
+
+  return { zoom, range };
+}
+
+// Tile centers rather than edges, so boundsToTileRange gives back the same range.
+function getTileCenterBounds(
+  range: TileRange,
+  zoom: number,
+  tileSize: number = DEFAULT_TILE_SIZE
+): BoundsLike {
+  const northWest = worldPixelToLngLat(
+    (range.minX + 0.5) * tileSize,
+    (range.minY + 0.5) * tileSize,
+    zoom,
+    tileSize
+  );
+  const southEast = worldPixelToLngLat(
+    (range.maxX + 0.5) * tileSize,
+    (range.maxY + 0.5) * tileSize,
+    zoom,
+    tileSize
+  );
+
+  return {
+    west: northWest.lng,
+    east: southEast.lng,
+    north: northWest.lat,
+    south: southEast.lat,
+  };
+}
+
+// Water reaches the detail grid across its edges at whatever level the coarse
+// grid needs to connect that spot to the ocean. The coarse levels are sampled
+// from the base solver, which already holds them, so only the edge is read.
+export async function buildDetailInflow(
+  detail: TerrainRgbModel,
+  base: TerrainRgbModel,
+  sampleBaseLevels: (indices: Uint32Array) => Promise<Float32Array | null>
+): Promise<FloodInflow | null> {
+  const { width, height } = detail.metadata;
+  const edgeIndices: number[] = [];
+  const baseIndices: number[] = [];
+
+  const addCell = (x: number, y: number) => {
+    const { lng, lat } = detail.gridPixelToLngLat(x + 0.5, y + 0.5);
+    const baseIndex = base.getCellIndex(lng, lat);
+    if (baseIndex === null) return;
+
+    edgeIndices.push(y * width + x);
+    baseIndices.push(baseIndex);
+  };
+
+  for (let x = 0; x < width; x += 1) {
+    addCell(x, 0);
+    addCell(x, height - 1);
+  }
+
+  for (let y = 1; y < height - 1; y += 1) {
+    addCell(0, y);
+    addCell(width - 1, y);
+  }
+
+  const baseLevels = await sampleBaseLevels(Uint32Array.from(baseIndices));
+  if (!baseLevels) return null;
+
+  const indices: number[] = [];
+  const levels: number[] = [];
+  baseLevels.forEach((level, cursor) => {
+    if (!Number.isFinite(level)) return;
+
+    indices.push(edgeIndices[cursor]);
+    levels.push(level);
+  });
+
+  return { indices: new Uint32Array(indices), levels: new Float32Array(levels) };
+}
+
+function getDetailKey({ zoom, range }: DetailTileRange): string {
+  return `${zoom}/${range.minX}/${range.minY}/${range.maxX}/${range.maxY}`;
+}
+
+function disposeDetail(
+  map: mapboxgl.Map | null,
+  baseLayer: ConnectedWaterLayer,
+  detail: DetailTerrain
+): void {
+  detail.solver.dispose();
+  if (map?.getLayer(detail.layer.id)) {
+    map.removeLayer(detail.layer.id);
+  }
+  baseLayer.setCutout(null);
+}
+
+function solveDetail(
+  detail: DetailTerrain,
+  detailRef: MutableRefObject<DetailTerrain | null>,
+  waterLevel: number
+): void {
+  detail.solver
+    .solve(waterLevel)
+    .then((solution) => {
+      if (!solution || detailRef.current !== detail) return;
+
+      detail.solution = solution;
+      detail.layer.setWaterLevel(solution.waterLevel);
+      detail.layer.updateMask(solution.mask, solution.width, solution.height, solution.depth);
+    })
+    .catch(() => {
+      // A failed refinement leaves the previous detail mask in place.
+    });
+}
+
+// Must run after the base solver has taken the current barriers, since the
+// inflow levels are sampled from its flood raster.
+export function useViewportDetail(
+  map: mapboxgl.Map | null,
+  baseModel: TerrainRgbModel | null,
+  baseSolver: FloodSolver | null,
+  baseLayer: ConnectedWaterLayer | null,
+  region: RegionDefinition,
+  detailRef: MutableRefObject<DetailTerrain | null>
+) {
+  const waterLevel = useStore((state) => state.waterLevel);
+  const barrierKey = useStore((state) => getBarrierFloodKey(state.barriers));
+  const [detail, setDetail] = useState<DetailTerrain | null>(null);
+  const appliedBarrierKey = useRef(barrierKey);
+
+  useEffect(() => {
+    if (!map || !baseModel || !baseSolver || !baseLayer) return;
+
+    let generation = 0;
+    let pendingKey: string | null = null;
+    let mapRemoved = false;
+
+    const handleRemove = () => {
+      mapRemoved = true;
+    };
+
+    const replaceDetail = (next: DetailTerrain | null) => {
+      if (detailRef.current) {
+        disposeDetail(mapRemoved ? null : map, baseLayer, detailRef.current);
+      }
+      detailRef.current = next;
+      setDetail(next);
+    };
+
+    const loadDetail = async (target: DetailTileRange, key: string) => {
+      const currentGeneration = (generation += 1);
+      const { waterLevel: level, barriers: currentBarriers } = useStore.getState();
+
+      const model = new TerrainRgbModel(
+        baseModel.source,
+        getTileCenterBounds(target.range, target.zoom),
+        target.zoom,
+        DEFAULT_TILE_SIZE,
+        region.oceanSeeds
+      );
+      await model.load();
+      if (currentGeneration !== generation) return;
+
+      model.setBarriers(currentBarriers);
+      const inflow = await buildDetailInflow(model, baseModel, (indices) =>
+        baseSolver.sampleFloodLevels(indices)
+      );
+      if (currentGeneration !== generation || !inflow) return;
+
+      model.setInflow(inflow);
+      appliedBarrierKey.current = getBarrierFloodKey(currentBarriers);
+
+      // Until replaceDetail takes it, the solver's worker is only ours to end.
+      const solver = new FloodSolver();
+      let layer: ConnectedWaterLayer;
+      let solution: FloodSolution | null;
+      try {
+        solver.init(model);
+        layer = new ConnectedWaterLayer(
+          model.metadata.bounds,
+          level,
+          64,
+          [region.waterLevels.min, region.waterLevels.max],
+          DETAIL_LAYER_ID
+        );
+        solution = await solver.solve(level);
+      } catch (error) {
+        solver.dispose();
+        throw error;
+      }
+
+      if (currentGeneration !== generation || !solution) {
+        solver.dispose();
+        return;
+      }
+
+      replaceDetail({ key, model, solver, layer, solution });
+      map.addLayer(layer, "3d-buildings");
+      layer.updateMask(solution.mask, solution.width, solution.height, solution.depth);
+      baseLayer.setCutout(model.metadata.bounds);
+    };
+
+    const refreshDetail = () => {
+      // Sequence exports move the camera every frame; the patch catches up
+      // once the export is done.
+      if (useStore.getState().isExporting) return;
+
+      const bounds = map.getBounds();
+      if (!bounds) return;
+
+      const target = getDetailTileRange(
+        {
+          west: bounds.getWest(),
+          east: bounds.getEast(),
+          south: bounds.getSouth(),
+          north: bounds.getNorth(),
+        },
+        map.getCenter(),
+        map.getZoom(),
+        baseModel.metadata.zoom
+      );
+
+      if (!target) {
+        generation += 1;
+        pendingKey = null;
+        replaceDetail(null);
+        return;
+      }
+
+      const key = getDetailKey(target);
+      if (key === pendingKey || key === detailRef.current?.key) return;
+
+      pendingKey = key;
+      loadDetail(target, key).catch(() => {
+        // Detail is an enhancement; the base grid keeps showing the flood.
+        if (pendingKey === key) pendingKey = null;
+      });
+    };
+
+    refreshDetail();
+    map.on("moveend", refreshDetail);
+    map.on("remove", handleRemove);
+    const unsubscribe = useStore.subscribe((state, previous) => {
+      if (previous.isExporting && !state.isExporting) refreshDetail();
+    });
+
+    return () => {
+      generation += 1;
+      unsubscribe();
+      map.off("moveend", refreshDetail);
+      map.off("remove", handleRemove);
+      replaceDetail(null);
+    };
+  }, [baseLayer, baseModel, baseSolver, detailRef, map, region]);
+
+  // The detail solver is re-initialized once the new edge levels arrive, and
+  // solves the current level itself since the level effect has already run.
+  useEffect(() => {
+    if (!detail || !baseModel || !baseSolver || barrierKey === appliedBarrierKey.current) {
+      return;
+    }
+
+    let cancelled = false;
+    appliedBarrierKey.current = barrierKey;
+    detail.model.setBarriers(useStore.getState().barriers);
+
+    buildDetailInflow(detail.model, baseModel, (indices) => baseSolver.sampleFloodLevels(indices))
+      .then((inflow) => {
+        if (cancelled || !inflow || detailRef.current !== detail) return;
+
+        detail.model.setInflow(inflow);
+        detail.solver.init(detail.model);
+        solveDetail(detail, detailRef, useStore.getState().waterLevel);
+      })
+      .catch(() => {
+        // The detail keeps its previous barriers until the next edit.
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseModel, baseSolver, barrierKey, detail, detailRef]);
+
+  useEffect(() => {
+    if (!detail) return;
+
+    solveDetail(detail, detailRef, waterLevel);
+  }, [detail, detailRef, waterLevel]);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyEasing,
+  getTimelineDuration,
+  sampleTimeline,
+  type TimelineKeyframe,
+} from "../CameraTimeline";
+
+function keyframe(
+  time: number,
+  changes: Partial<TimelineKeyframe["camera"]> = {},
+  waterLevel = 0
+): TimelineKeyframe {
+  return {
+    id: String(time),
+    regionId: "san-francisco",
+    time,
+    camera: { center: [-122.4, 37.8], zoom: 12, pitch: 60, bearing: 0, ...changes },
+    waterLevel,
+    easing: "linear",
+  };
+}
+
+describe("CameraTimeline", () => {
+  it("eases from 0 to 1 through the midpoint", () => {
+    for (const easing of ["linear", "ease-in", "ease-out", "ease-in-out"] as const) {
+      expect(applyEasing(easing, 0)).toBe(0);
+      expect(applyEasing(easing, 1)).toBe(1);
+    }
+    expect(applyEasing("ease-in-out", 0.5)).toBeCloseTo(0.5);
+    expect(applyEasing("ease-in", 0.5)).toBeLessThan(0.5);
+    expect(applyEasing("ease-out", 0.5)).toBeGreaterThan(0.5);
+  });
+
+  it("holds the ends and passes through every keyframe", () => {
+    const keyframes = [
+      keyframe(0, { zoom: 12 }, 0),
+      keyframe(2, { zoom: 14, pitch: 80 }, 4),
+      keyframe(6, { zoom: 13 }, 10),
+    ];
+
+    expect(getTimelineDuration(keyframes)).toBe(6);
+    expect(sampleTimeline([], 1)).toBeNull();
+    expect(sampleTimeline(keyframes, -1)?.camera.zoom).toBe(12);
+    expect(sampleTimeline(keyframes, 99)?.waterLevel).toBe(10);
+    expect(sampleTimeline(keyframes, 2)).toMatchObject({
+      camera: { zoom: 14, pitch: 80 },
+      waterLevel: 4,
+    });
+    expect(sampleTimeline(keyframes, 1)?.waterLevel).toBeCloseTo(2);
+  });
+
+  it("splines smoothly through the middle keyframes", () => {
+    const keyframes = [
+      keyframe(0, { zoom: 10 }),
+      keyframe(1, { zoom: 12 }),
+      keyframe(2, { zoom: 14 }),
+    ];
+
+    // A straight run keeps its speed through the middle keyframe.
+    const before = sampleTimeline(keyframes, 0.99)!.camera.zoom;
+    const after = sampleTimeline(keyframes, 1.01)!.camera.zoom;
+    expect((after - before) / 0.02).toBeCloseTo(2, 1);
+  });
+
+  it("turns the short way round across north", () => {
+    const keyframes = [keyframe(0, { bearing: 350 }), keyframe(1, { bearing: 10 })];
+    expect(sampleTimeline(keyframes, 0.5)!.camera.bearing).toBeCloseTo(360);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  createElevationSource,
+  LocalTileSource,
+  MapboxTerrainRgbSource,
+  SyntheticElevationSource,
+  TileUrlSource,
+} from "../ElevationSources";
+import { TerrainRgbModel } from "../FloodModel";
+
+const SMALL_BOUNDS = { west: -122.5, east: -122.4, south: 37.7, north: 37.8 };
+
+describe("ElevationSources", () => {
+  it("builds Mapbox Terrain-RGB and local tile URLs", () => {
+    expect(new MapboxTerrainRgbSource("abc").getTileUrl(13, 1310, 3166)).toBe(
+      "https://api.mapbox.com/v4/mapbox.terrain-rgb/13/1310/3166.pngraw?access_token=abc"
+    );
+    expect(new LocalTileSource("/terrain/").getTileUrl(13, 1310, 3166)).toBe(
+      "/terrain/13/1310/3166.png"
+    );
+    expect(new LocalTileSource("/lidar", "float32").getTileUrl(15, 5242, 12663)).toBe(
+      "/lidar/15/5242/12663.bin"
+    );
+  });
+
+  it("picks the decoder for the configured tile encoding", () => {
+    expect(createElevationSource("terrarium", "")).toMatchObject({ encoding: "terrarium" });
+    expect(
+      createElevationSource("local", "", { localEncoding: "float32" })
+    ).toMatchObject({ encoding: "float32" });
+    expect(createElevationSource("local", "", { localEncoding: "bogus" })).toMatchObject({
+      encoding: "terrain-rgb",
+    });
+    expect(new TileUrlSource("https://tiles.test/{z}/{x}/{y}.png").getTileUrl(1, 2, 3)).toBe(
+      "https://tiles.test/1/2/3.png"
+    );
+  });
+
+  it("samples synthetic tiles at pixel centers", async () => {
+    const source = new SyntheticElevationSource((lng) => lng);
+    const tile = await source.loadTile(0, 0, 0, 4);
+
+    expect(tile).toHaveLength(16);
+    expect(tile[0]).toBeCloseTo(-135, 5);
+    expect(tile[3]).toBeCloseTo(135, 5);
+  });
+
+  it("loads a terrain model without network access", async () => {
+    const source = new SyntheticElevationSource((lng) => (lng < -122.45 ? 0 : 100));
+    const model = new TerrainRgbModel(source, SMALL_BOUNDS, 10, 16);
+
+    await model.load();
+
+    expect(model.isLoaded()).toBe(true);
+    expect(model.getElevation(-122.49, 37.75)).toBe(0);
+    expect(model.getElevation(-122.41, 37.75)).toBe(100);
+    expect(model.buildFloodMask(50).some((value) => value === 255)).toBe(true);
+  });
+
+  it("falls back to Mapbox for unknown source kinds", () => {
+    expect(createElevationSource("local", "token")).toBeInstanceOf(LocalTileSource);
+    expect(createElevationSource("synthetic", "token")).toBeInstanceOf(
+      SyntheticElevationSource
+    );
+    expect(createElevationSource(undefined, "token")).toBeInstanceOf(
+      MapboxTerrainRgbSource
+    );
+  });
+});
@@ -8,6 +8,8 @@ import {
   isInViewport,
   getTerrainTileKey,
   TerrainCache,
+  sampleGridBilinear,
+  summarizeFootprintElevation,
 } from "../ElevationUtils";
 import mapboxgl from "mapbox-gl";
 
@@ -292,4 +294,63 @@ describe("ElevationUtils", () => {
       expect(cache.get("key2")).toBeUndefined();
     });
   });
+
+  describe("sampleGridBilinear", () => {
+    const grid = new Float32Array([0, 10, 20, 30]);
+
+    it("should interpolate between cell centers", () => {
+      expect(sampleGridBilinear(grid, 2, 2, 0.5, 0.5)).toBe(0);
+      expect(sampleGridBilinear(grid, 2, 2, 1, 0.5)).toBeCloseTo(5);
+      expect(sampleGridBilinear(grid, 2, 2, 1, 1)).toBeCloseTo(15);
+    });
+
+    it("should return NaN outside the grid", () => {
+      expect(sampleGridBilinear(grid, 2, 2, -0.1, 1)).toBeNaN();
+      expect(sampleGridBilinear(grid, 2, 2, 1, 2.1)).toBeNaN();
+    });
+  });
+
+  describe("summarizeFootprintElevation", () => {
+    const width = 4;
+    const values = new Float32Array([
+      1, 2, 3, 4,
+      5, 6, 7, 8,
+      9, 10, 11, 12,
+      13, 14, 15, 16,
+    ]);
+    const sample = (x: number, y: number) => sampleGridBilinear(values, width, 4, x, y);
+    const square = (x0: number, y0: number, x1: number, y1: number) => [
+      { x: x0, y: y0 },
+      { x: x1, y: y0 },
+      { x: x1, y: y1 },
+      { x: x0, y: y1 },
+    ];
+
+    it("should summarize cell centers inside the footprint", () => {
+      expect(summarizeFootprintElevation([square(1, 1, 3, 3)], sample)).toEqual({
+        min: 6,
+        mean: 8.5,
+        max: 11,
+        samples: 4,
+      });
+    });
+
+    it("should skip holes in the footprint", () => {
+      const stats = summarizeFootprintElevation(
+        [square(0, 0, 4, 4), square(1, 1, 3, 3)],
+        sample
+      );
+
+      expect(stats?.samples).toBe(12);
+      expect(stats?.min).toBe(1);
+      expect(stats?.max).toBe(16);
+    });
+
+    it("should fall back to box samples for footprints smaller than a cell", () => {
+      const stats = summarizeFootprintElevation([square(1.1, 1.1, 1.3, 1.3)], sample);
+
+      expect(stats?.samples).toBe(5);
+      expect(stats?.mean).toBeCloseTo(4.5);
+    });
+  });
 });
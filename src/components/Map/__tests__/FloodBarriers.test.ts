@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyBarrierCells,
+  getBarrierFloodKey,
+  rasterizeBarriers,
+  type FloodBarrier,
+} from "../FloodBarriers";
+import { buildFloodLevelRaster, thresholdFloodLevels } from "../FloodModel";
+
+const identity = (lng: number, lat: number) => ({ x: lng, y: lat });
+
+describe("FloodBarriers", () => {
+  it("keeps diagonal walls watertight for the 8-connected flood fill", () => {
+    const barrier: FloodBarrier = {
+      id: "diagonal",
+      name: "Diagonal",
+      crestHeight: 20,
+      coordinates: [
+        [0.5, 0.5],
+        [3.5, 3.5],
+      ],
+    };
+
+    const cells = rasterizeBarriers([barrier], 4, 4, identity);
+    const raised = applyBarrierCells(new Float32Array(16), cells);
+
+    expect(raised[0]).toBe(20);
+    expect(raised[15]).toBe(20);
+    expect(raised[1]).toBe(20);
+    expect(raised[3]).toBe(0);
+  });
+
+  it("holds water back until the crest is overtopped", () => {
+    const width = 6;
+    const height = 3;
+    const elevations = new Float32Array(width * height);
+    const seedMask = new Uint8Array(width * height);
+    for (let y = 0; y < height; y += 1) seedMask[y * width] = 1;
+
+    const seawall: FloodBarrier = {
+      id: "seawall",
+      name: "Seawall",
+      crestHeight: 5,
+      coordinates: [
+        [2.5, -1],
+        [2.5, 4],
+      ],
+    };
+
+    const raised = applyBarrierCells(
+      elevations,
+      rasterizeBarriers([seawall], width, height, identity)
+    );
+    const floodLevels = buildFloodLevelRaster(raised, width, height, seedMask);
+
+    expect(thresholdFloodLevels(floodLevels, 4)[width - 1]).toBe(0);
+    expect(thresholdFloodLevels(floodLevels, 5)[width - 1]).toBe(255);
+  });
+
+  it("returns the original elevations when there are no barriers", () => {
+    const elevations = new Float32Array([1, 2, 3]);
+
+    expect(applyBarrierCells(elevations, rasterizeBarriers([], 3, 1, identity))).toBe(
+      elevations
+    );
+  });
+
+  it("keys barriers on what the flood fill sees, not on their names", () => {
+    const wall: FloodBarrier = {
+      id: "wall",
+      name: "Wall",
+      crestHeight: 3,
+      coordinates: [
+        [0, 0],
+        [1, 1],
+      ],
+    };
+    const key = getBarrierFloodKey([wall]);
+
+    expect(getBarrierFloodKey([{ ...wall, name: "Seawall" }])).toBe(key);
+    expect(getBarrierFloodKey([{ ...wall, crestHeight: 4 }])).not.toBe(key);
+    expect(getBarrierFloodKey([{ ...wall, coordinates: [[0, 0]] }])).not.toBe(key);
+  });
+});
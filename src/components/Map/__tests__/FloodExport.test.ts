@@ -0,0 +1,110 @@
+import { fromArrayBuffer } from "geotiff";
+import { describe, expect, it } from "vitest";
+import { getRegion } from "@/lib/regions";
+import { SyntheticElevationSource, TileUrlSource } from "../ElevationSources";
+import { TerrainRgbModel } from "../FloodModel";
+import {
+  createExportMetadata,
+  encodeGridGeoTiff,
+  getExportGrid,
+  extentToGeoJson,
+  extentToKml,
+} from "../FloodExport";
+import { projectLngLat, readDemRaster } from "../GeoTiffSource";
+
+const region = getRegion("san-francisco");
+const metadata = createExportMetadata(
+  region,
+  12.5,
+  new TileUrlSource(
+    "https://tiles.test/{z}/{x}/{y}.png",
+    "terrain-rgb",
+    "Test DEM",
+    "test",
+    "NAVD88"
+  ),
+  { zoom: 12, cellSizeM: 30.1 },
+  new Date("2025-01-02T03:04:05Z")
+);
+
+const square = {
+  type: "Polygon" as const,
+  coordinates: [
+    [
+      [-122.5, 37.7],
+      [-122.4, 37.7],
+      [-122.4, 37.8],
+      [-122.5, 37.8],
+      [-122.5, 37.7],
+    ],
+  ],
+};
+
+describe("FloodExport", () => {
+  it("records level, datum, region and source DEM", () => {
+    expect(metadata).toEqual({
+      regionId: "san-francisco",
+      region: region.displayName,
+      waterLevel: 12.5,
+      datum: "NAVD88",
+      sourceDem: "Test DEM",
+      grid: "base",
+      gridZoom: 12,
+      gridCellSizeM: 30.1,
+      exportedAt: "2025-01-02T03:04:05.000Z",
+    });
+    expect(
+      createExportMetadata(region, 1, new SyntheticElevationSource(), { zoom: 12, cellSizeM: 30 })
+        .datum
+    ).toBe("Unspecified");
+  });
+
+  it("labels exports with the base grid's zoom and ground cell size", () => {
+    const model = new TerrainRgbModel(new SyntheticElevationSource(), region.bounds, 12, 256);
+    const grid = getExportGrid(model);
+    const circumference = 2 * Math.PI * 6378137;
+    const midLatitude = (region.bounds.north + region.bounds.south) / 2;
+
+    expect(grid.zoom).toBe(12);
+    expect(grid.cellSizeM).toBeCloseTo(
+      (circumference * Math.cos((midLatitude * Math.PI) / 180)) / (256 * 2 ** 12),
+      0
+    );
+  });
+
+  it("writes the extent as GeoJSON and KML polygons", () => {
+    const geojson = extentToGeoJson(square, metadata);
+    expect(geojson.features).toHaveLength(1);
+    expect(geojson.features[0].properties).toMatchObject({ waterLevel: 12.5, datum: "NAVD88" });
+    expect(geojson.features[0].geometry).toEqual(square);
+    expect(extentToGeoJson(null, metadata).features).toEqual([]);
+
+    const kml = extentToKml(square, metadata);
+    expect(kml).toContain('<Data name="datum"><value>NAVD88</value></Data>');
+    expect(kml).toContain(
+      "<coordinates>-122.5,37.7 -122.4,37.7 -122.4,37.8 -122.5,37.8 -122.5,37.7</coordinates>"
+    );
+    expect(extentToKml(null, metadata)).not.toContain("<Placemark>");
+  });
+
+  it("georeferences rasters to the model bounds in Web Mercator", async () => {
+    const bounds = { west: -122.5, east: -122.4, south: 37.7, north: 37.8 };
+    const depth = new Float32Array([0, 1.5, 2, 0, 0, 3]);
+
+    const buffer = encodeGridGeoTiff(depth, 3, 2, bounds, metadata);
+    const raster = await readDemRaster(buffer);
+    const northWest = projectLngLat(bounds.west, bounds.north, 3857);
+    const southEast = projectLngLat(bounds.east, bounds.south, 3857);
+
+    expect(raster.epsg).toBe(3857);
+    expect(Array.from(raster.data)).toEqual(Array.from(depth));
+    expect(raster.originX).toBeCloseTo(northWest.x, 3);
+    expect(raster.originY).toBeCloseTo(northWest.y, 3);
+    expect(raster.originX + raster.resolutionX * 3).toBeCloseTo(southEast.x, 3);
+    expect(raster.originY + raster.resolutionY * 2).toBeCloseTo(southEast.y, 3);
+
+    const image = await (await fromArrayBuffer(buffer)).getImage();
+    const description = String(await image.fileDirectory.loadValue("ImageDescription"));
+    expect(JSON.parse(description.replace(/\0+$/, ""))).toEqual(metadata);
+  });
+});
@@ -1,10 +1,17 @@
 import { describe, expect, it } from "vitest";
 import {
   buildConnectedFloodMaskFromElevations,
+  buildFloodDepthFromLevels,
+  buildFloodLevelRaster,
+  buildHypsometricCurve,
   boundsToTileRange,
+  decodeFloat32Tile,
   decodeTerrainRgb,
+  decodeTerrarium,
+  getPixelDecoder,
   lngLatToWorldPixel,
   SAN_FRANCISCO_MODEL_BOUNDS,
+  thresholdFloodLevels,
 } from "../FloodModel";
 
 describe("FloodModel", () => {
@@ -12,6 +19,44 @@ describe("FloodModel", () => {
     expect(decodeTerrainRgb(1, 135, 144)).toBeCloseTo(24, 1);
   });
 
+  it("decodes Terrarium values into meters", () => {
+    expect(decodeTerrarium(128, 24, 0)).toBeCloseTo(24, 3);
+    expect(decodeTerrarium(127, 255, 128)).toBeCloseTo(-0.5, 3);
+  });
+
+  it("round-trips elevations through each image encoding", () => {
+    for (const elevation of [-12.5, 0, 24, 283.7]) {
+      const terrainRgb = Math.round((elevation + 10000) * 10);
+      const terrarium = elevation + 32768;
+
+      expect(
+        getPixelDecoder("terrain-rgb")(
+          Math.floor(terrainRgb / 65536),
+          Math.floor(terrainRgb / 256) % 256,
+          terrainRgb % 256
+        )
+      ).toBeCloseTo(elevation, 1);
+      expect(
+        getPixelDecoder("terrarium")(
+          Math.floor(terrarium / 256),
+          Math.floor(terrarium) % 256,
+          Math.round((terrarium % 1) * 256)
+        )
+      ).toBeCloseTo(elevation, 2);
+    }
+  });
+
+  it("decodes raw little-endian Float32 tiles", () => {
+    const buffer = new ArrayBuffer(4 * 4);
+    const view = new DataView(buffer);
+    [-3.25, 0, 24, 283.75].forEach((elevation, index) =>
+      view.setFloat32(index * 4, elevation, true)
+    );
+
+    expect(Array.from(decodeFloat32Tile(buffer, 2))).toEqual([-3.25, 0, 24, 283.75]);
+    expect(() => decodeFloat32Tile(buffer, 3)).toThrow("expected 36");
+  });
+
   it("maps San Francisco bounds into a valid tile range", () => {
     const range = boundsToTileRange(SAN_FRANCISCO_MODEL_BOUNDS, 13);
 
@@ -70,4 +115,120 @@ describe("FloodModel", () => {
     expect(mask[0]).toBe(255);
     expect(mask[12]).toBe(0);
   });
+
+  it("records the spill level needed to reach enclosed low ground", () => {
+    const elevations = new Float32Array([
+      5, 5, 5, 5, 5,
+      5, 40, 30, 60, 5,
+      5, 60, 10, 60, 5,
+      5, 60, 60, 60, 5,
+      5, 5, 5, 5, 5,
+    ]);
+
+    const floodLevels = buildFloodLevelRaster(elevations, 5, 5);
+
+    expect(floodLevels[0]).toBe(5);
+    expect(floodLevels[6]).toBe(40);
+    expect(floodLevels[7]).toBe(30);
+    expect(floodLevels[12]).toBe(30);
+  });
+
+  it("thresholds the flood-level raster into the connected BFS mask", () => {
+    const width = 7;
+    const height = 6;
+    const elevations = new Float32Array(width * height);
+    for (let index = 0; index < elevations.length; index += 1) {
+      elevations[index] = ((index * 37) % 23) * 4 - 10;
+    }
+    elevations[17] = Number.NaN;
+
+    const floodLevels = buildFloodLevelRaster(elevations, width, height);
+
+    for (const waterLevel of [-10, 0, 12.5, 30, 55, 90]) {
+      expect(thresholdFloodLevels(floodLevels, waterLevel)).toEqual(
+        buildConnectedFloodMaskFromElevations(elevations, width, height, waterLevel)
+      );
+    }
+  });
+
+  it("reports depth only for ocean-connected cells", () => {
+    const elevations = new Float32Array([
+      2, 2, 2,
+      2, 80, 2,
+      2, 2, 2,
+    ]);
+    const enclosed = new Float32Array([
+      2, 2, 2, 2, 2,
+      2, 90, 90, 90, 2,
+      2, 90, -5, 90, 2,
+      2, 90, 90, 90, 2,
+      2, 2, 2, 2, 2,
+    ]);
+
+    const depth = buildFloodDepthFromLevels(
+      elevations,
+      buildFloodLevelRaster(elevations, 3, 3),
+      10
+    );
+    const enclosedDepth = buildFloodDepthFromLevels(
+      enclosed,
+      buildFloodLevelRaster(enclosed, 5, 5),
+      10
+    );
+
+    expect(depth[0]).toBeCloseTo(8);
+    expect(depth[4]).toBe(0);
+    expect(enclosedDepth[12]).toBe(0);
+  });
+
+  it("only floods cells connected to explicit ocean seeds", () => {
+    const elevations = new Float32Array([
+      0, 0, 90, 0, 0,
+      0, 0, 90, 0, 0,
+      0, 0, 90, 0, 0,
+    ]);
+    const seedMask = new Uint8Array(elevations.length);
+    seedMask[0] = 1;
+
+    const mask = buildConnectedFloodMaskFromElevations(elevations, 5, 3, 10, seedMask);
+    const floodLevels = buildFloodLevelRaster(elevations, 5, 3, seedMask);
+
+    expect(mask[1]).toBe(255);
+    expect(mask[4]).toBe(0);
+    expect(floodLevels[4]).toBe(90);
+    expect(thresholdFloodLevels(floodLevels, 10)).toEqual(mask);
+  });
+
+  it("feeds inflow cells in at their level without opening the grid border", () => {
+    const ridge = new Float32Array([0, 10, 0]);
+    const basin = new Float32Array([5, 0, 5]);
+
+    const ridgeLevels = buildFloodLevelRaster(ridge, 3, 1, null, {
+      indices: new Uint32Array([0, 2]),
+      levels: new Float32Array([12, 1]),
+    });
+    const basinLevels = buildFloodLevelRaster(basin, 3, 1, null, {
+      indices: new Uint32Array([1]),
+      levels: new Float32Array([3]),
+    });
+
+    expect(Array.from(ridgeLevels)).toEqual([10, 10, 1]);
+    expect(Array.from(basinLevels)).toEqual([5, 3, 5]);
+  });
+
+  it("accumulates flooded land area across a sweep of levels", () => {
+    // Open water, three land cells (one never reached), then a row outside the window.
+    const elevations = Float32Array.from([-1, 2, 5, 8, 1, 1, 1, 1]);
+    const floodLevels = Float32Array.from([-1, 2, 5, Infinity, 0, 0, 0, 0]);
+    const areas = buildHypsometricCurve(
+      elevations,
+      floodLevels,
+      4,
+      { minX: 0, minY: 0, maxX: 4, maxY: 1 },
+      Float64Array.from([1.5, 100]),
+      Float64Array.from([0, 2, 4, 6])
+    );
+
+    expect(Array.from(areas)).toEqual([0, 1.5, 1.5, 3]);
+  });
 });
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import {
+  FloodSolver,
+  type FloodSolverRequest,
+  type FloodSolverResponse,
+  type FloodSolverWorker,
+} from "../FloodSolver";
+import { EMPTY_BARRIER_CELLS } from "../FloodBarriers";
+import {
+  buildFloodDepthFromLevels,
+  buildFloodLevelRaster,
+  thresholdFloodLevels,
+  type TerrainRgbModel,
+} from "../FloodModel";
+
+class FakeWorker implements FloodSolverWorker {
+  readonly messages: Array<{ message: FloodSolverRequest; transfer: Transferable[] }> = [];
+  onmessage: ((event: MessageEvent<FloodSolverResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  terminated = false;
+
+  postMessage(message: FloodSolverRequest, transfer: Transferable[]): void {
+    this.messages.push({ message, transfer });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  solveRequests(): Array<Extract<FloodSolverRequest, { type: "solve" }>> {
+    return this.messages
+      .map(({ message }) => message)
+      .filter(
+        (message): message is Extract<FloodSolverRequest, { type: "solve" }> =>
+          message.type === "solve"
+      );
+  }
+
+  reply(response: FloodSolverResponse): void {
+    this.onmessage?.({ data: response } as MessageEvent<FloodSolverResponse>);
+  }
+}
+
+const elevations = new Float32Array([0, 5, 0, 10]);
+const floodLevels = buildFloodLevelRaster(elevations, 2, 2);
+
+function createModel(): TerrainRgbModel {
+  return {
+    metadata: { zoom: 13, width: 2, height: 2, bounds: { west: 0, east: 1, south: 0, north: 1 } },
+    cloneElevations: () => elevations.slice(),
+    getSeedMask: () => null,
+    getInflow: () => null,
+    getBarrierCells: () => EMPTY_BARRIER_CELLS,
+  } as unknown as TerrainRgbModel;
+}
+
+function replyToSolve(worker: FakeWorker, index: number): void {
+  const request = worker.solveRequests()[index];
+  worker.reply({
+    type: "mask",
+    requestId: request.requestId,
+    waterLevel: request.waterLevel,
+    mask: thresholdFloodLevels(floodLevels, request.waterLevel),
+    depth: buildFloodDepthFromLevels(elevations, floodLevels, request.waterLevel),
+  });
+}
+
+describe("FloodSolver", () => {
+  it("transfers a copy of the terrain elevations once", () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+
+    solver.init(createModel());
+
+    expect(worker.messages).toHaveLength(1);
+    const [{ message, transfer }] = worker.messages;
+    expect(message.type).toBe("init");
+    if (message.type !== "init") return;
+    expect(transfer).toEqual([message.elevations.buffer]);
+    expect(message.elevations).not.toBe(elevations);
+  });
+
+  it("forwards rasterized barrier cells to the worker", () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+    solver.init(createModel());
+
+    solver.setBarriers({
+      indices: new Uint32Array([1, 3]),
+      crestHeights: new Float32Array([5, 5]),
+    });
+
+    const { message } = worker.messages[1];
+    expect(message.type).toBe("barriers");
+    if (message.type !== "barriers") return;
+    expect(Array.from(message.indices)).toEqual([1, 3]);
+  });
+
+  it("resolves the mask posted back by the worker", async () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+    solver.init(createModel());
+
+    const pending = solver.solve(6);
+    replyToSolve(worker, 0);
+
+    const solution = await pending;
+    expect(solution?.waterLevel).toBe(6);
+    expect(solution?.width).toBe(2);
+    expect(Array.from(solution?.mask ?? [])).toEqual([255, 255, 255, 0]);
+    expect(Array.from(solution?.depth ?? [])).toEqual([6, 1, 6, 0]);
+  });
+
+  it("drops queued levels that are superseded before the worker is free", async () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+    solver.init(createModel());
+
+    const first = solver.solve(1);
+    const stale = solver.solve(2);
+    const latest = solver.solve(3);
+
+    expect(worker.solveRequests()).toHaveLength(1);
+    await expect(stale).resolves.toBeNull();
+
+    replyToSolve(worker, 0);
+    expect((await first)?.waterLevel).toBe(1);
+
+    expect(worker.solveRequests()).toHaveLength(2);
+    expect(worker.solveRequests()[1].waterLevel).toBe(3);
+
+    replyToSolve(worker, 1);
+    expect((await latest)?.waterLevel).toBe(3);
+  });
+
+  it("rejects the in-flight level when the worker reports an error", async () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+    solver.init(createModel());
+
+    const pending = solver.solve(4);
+    worker.reply({
+      type: "error",
+      requestId: worker.solveRequests()[0].requestId,
+      message: "boom",
+    });
+
+    await expect(pending).rejects.toThrow("boom");
+  });
+
+  it("terminates the worker and settles pending levels on dispose", async () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+    solver.init(createModel());
+
+    const pending = solver.solve(4);
+    solver.dispose();
+
+    expect(worker.terminated).toBe(true);
+    await expect(pending).resolves.toBeNull();
+    await expect(solver.solve(5)).rejects.toThrow("disposed");
+  });
+
+  it("answers curve requests separately from the level being solved", async () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+    solver.init(createModel());
+    const grid = {
+      width: 2,
+      height: 2,
+      window: { minX: 0, minY: 0, maxX: 2, maxY: 2 },
+      rowCellAreas: Float64Array.from([1, 1]),
+    };
+
+    const solving = solver.solve(4);
+    const curve = solver.buildCurve([0, 5, 10], grid);
+    const request = worker.messages.at(-1)?.message;
+    expect(request).toMatchObject({ type: "curve", window: grid.window });
+    if (request?.type !== "curve") return;
+    expect(Array.from(request.levels)).toEqual([0, 5, 10]);
+
+    worker.reply({
+      type: "curve",
+      requestId: request.requestId,
+      areas: Float64Array.from([0, 1, 2]),
+    });
+    replyToSolve(worker, 0);
+
+    await expect(curve).resolves.toEqual(Float64Array.from([0, 1, 2]));
+    await expect(solving).resolves.toMatchObject({ waterLevel: 4 });
+
+    const abandoned = solver.buildCurve([0], grid);
+    solver.dispose();
+    await expect(abandoned).resolves.toBeNull();
+  });
+
+  it("samples flood levels at the requested cells from the worker", async () => {
+    const worker = new FakeWorker();
+    const solver = new FloodSolver(() => worker);
+    solver.init(createModel());
+    const indices = Uint32Array.from([3, 0]);
+
+    const sampled = solver.sampleFloodLevels(indices);
+    const { message, transfer } = worker.messages.at(-1) ?? {};
+    expect(message?.type).toBe("sample");
+    if (message?.type !== "sample") return;
+    expect(Array.from(message.indices)).toEqual([3, 0]);
+    expect(message.indices).not.toBe(indices);
+    expect(transfer).toEqual([message.indices.buffer]);
+
+    worker.reply({ type: "error", requestId: message.requestId, message: "no terrain" });
+    await expect(sampled).rejects.toThrow("no terrain");
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { SyntheticElevationSource } from "../ElevationSources";
+import { TerrainRgbModel } from "../FloodModel";
+import {
+  computeFloodStats,
+  createFloodStatsGrid,
+  getRowCellAreas,
+  type FloodStatsGrid,
+} from "../FloodStats";
+
+const BOUNDS = { west: -122.5, east: -122.4, south: 37.7, north: 37.8 };
+
+function sphericalAreaKm2(west: number, east: number, south: number, north: number): number {
+  const radius = 6371.0088;
+  const toRad = Math.PI / 180;
+  return (
+    radius * radius * (east - west) * toRad * (Math.sin(north * toRad) - Math.sin(south * toRad))
+  );
+}
+
+describe("FloodStats", () => {
+  it("gives each row the area of the band it covers on the sphere", () => {
+    const model = new TerrainRgbModel(new SyntheticElevationSource(() => 0), BOUNDS, 12, 32);
+    const areas = getRowCellAreas(model);
+    const { bounds, width } = model.metadata;
+
+    const total = areas.reduce((sum, area) => sum + area * width, 0);
+    expect(total).toBeCloseTo(
+      sphericalAreaKm2(bounds.west, bounds.east, bounds.south, bounds.north),
+      6
+    );
+    // Northern rows come first and cover less ground.
+    expect(areas[0]).toBeLessThan(areas[areas.length - 1]);
+  });
+
+  it("limits the counted cells to the region inside the tile grid", () => {
+    const model = new TerrainRgbModel(new SyntheticElevationSource(() => 0), BOUNDS, 12, 32);
+    const { window, width, height } = createFloodStatsGrid(model, BOUNDS);
+
+    expect(window.minX).toBeGreaterThan(0);
+    expect(window.maxX).toBeLessThan(width);
+    expect(window.minY).toBeGreaterThanOrEqual(0);
+    expect(window.maxY).toBeLessThanOrEqual(height);
+    expect(window.minX).toBeLessThan(window.maxX);
+  });
+
+  it("counts flooded land, its share and what is new since the previous level", () => {
+    const grid: FloodStatsGrid = {
+      width: 3,
+      height: 2,
+      window: { minX: 0, minY: 0, maxX: 3, maxY: 2 },
+      rowCellAreas: Float64Array.from([1, 2]),
+    };
+    // The first cell is open water, the rest are land.
+    const elevations = Float32Array.from([-2, 1, 3, 1, 2, 5]);
+    const previous = { waterLevel: 1, mask: Uint8Array.from([255, 255, 0, 255, 0, 0]) };
+    const current = { waterLevel: 2, mask: Uint8Array.from([255, 255, 0, 255, 255, 0]) };
+
+    expect(computeFloodStats(grid, elevations, current, previous)).toEqual({
+      waterLevel: 2,
+      previousWaterLevel: 1,
+      floodedKm2: 5,
+      landKm2: 8,
+      floodedShare: 5 / 8,
+      newlyFloodedKm2: 2,
+    });
+    expect(computeFloodStats(grid, elevations, current, null)).toMatchObject({
+      previousWaterLevel: null,
+      newlyFloodedKm2: 0,
+    });
+  });
+});
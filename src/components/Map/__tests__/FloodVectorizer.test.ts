@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { Position } from "geojson";
+import { simplifyRing, traceMaskContours, vectorizeFloodMask } from "../FloodVectorizer";
+
+// Flip y so grid rows map to latitude the way they do on the map.
+const toLngLat = (x: number, y: number) => ({ lng: x, lat: -y });
+
+function createMask(rows: string[]): { mask: Uint8Array; width: number; height: number } {
+  const width = rows[0].length;
+  const height = rows.length;
+  const mask = new Uint8Array(width * height);
+
+  rows.forEach((row, y) => {
+    for (let x = 0; x < width; x += 1) {
+      if (row[x] === "#") mask[y * width + x] = 255;
+    }
+  });
+
+  return { mask, width, height };
+}
+
+function signedArea(ring: Position[]): number {
+  let area = 0;
+  for (let index = 0; index + 1 < ring.length; index += 1) {
+    area += ring[index][0] * ring[index + 1][1] - ring[index + 1][0] * ring[index][1];
+  }
+  return area / 2;
+}
+
+describe("FloodVectorizer", () => {
+  it("traces closed rings around wet cell centers", () => {
+    const { mask, width, height } = createMask(["#"]);
+
+    expect(traceMaskContours(mask, width, height)).toEqual([
+      [
+        { x: 0, y: 0.5 },
+        { x: 0.5, y: 0 },
+        { x: 1, y: 0.5 },
+        { x: 0.5, y: 1 },
+      ],
+    ]);
+  });
+
+  it("builds counter-clockwise shells with clockwise holes", () => {
+    const { mask, width, height } = createMask([
+      ".....",
+      ".###.",
+      ".#.#.",
+      ".###.",
+      ".....",
+    ]);
+
+    const geometry = vectorizeFloodMask(mask, width, height, toLngLat);
+
+    expect(geometry?.type).toBe("Polygon");
+    if (geometry?.type !== "Polygon") return;
+
+    const [shell, hole] = geometry.coordinates;
+    expect(geometry.coordinates).toHaveLength(2);
+    expect(shell[0]).toEqual(shell[shell.length - 1]);
+    expect(signedArea(shell)).toBeGreaterThan(0);
+    expect(signedArea(hole)).toBeLessThan(0);
+  });
+
+  it("joins diagonal neighbours and splits separate water bodies", () => {
+    const diagonal = createMask(["#.", ".#"]);
+    const separate = createMask(["#..#"]);
+
+    expect(
+      vectorizeFloodMask(diagonal.mask, diagonal.width, diagonal.height, toLngLat)?.type
+    ).toBe("Polygon");
+
+    const geometry = vectorizeFloodMask(
+      separate.mask,
+      separate.width,
+      separate.height,
+      toLngLat
+    );
+    expect(geometry?.type).toBe("MultiPolygon");
+    expect(geometry?.type === "MultiPolygon" && geometry.coordinates).toHaveLength(2);
+  });
+
+  it("simplifies straight shorelines and skips dry masks", () => {
+    const { mask, width, height } = createMask(Array(6).fill("##########"));
+    const [ring] = traceMaskContours(mask, width, height);
+
+    expect(ring.length).toBeGreaterThan(20);
+    expect(simplifyRing(ring, 0.75).length).toBeLessThanOrEqual(8);
+    expect(vectorizeFloodMask(new Uint8Array(4), 2, 2, toLngLat)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { writeArrayBuffer } from "geotiff";
+import {
+  GeoTiffElevationSource,
+  projectLngLat,
+  readDemRaster,
+  sampleDemRaster,
+  type DemRaster,
+} from "../GeoTiffSource";
+import { SyntheticElevationSource } from "../ElevationSources";
+import { TerrainRgbModel } from "../FloodModel";
+
+function createGeographicTiff(values: number[], width: number, height: number): ArrayBuffer {
+  return writeArrayBuffer(new Float32Array(values), {
+    width,
+    height,
+    ModelPixelScale: [0.05, 0.05, 0],
+    ModelTiepoint: [0, 0, 0, -122.5, 37.8, 0],
+    GeographicTypeGeoKey: 4326,
+    GDAL_NODATA: "-9999",
+  });
+}
+
+describe("GeoTiffSource", () => {
+  it("projects onto UTM zone 10 north", () => {
+    const centralMeridian = projectLngLat(-123, 0, 32610);
+    const midLatitude = projectLngLat(-123, 45, 26910);
+
+    expect(centralMeridian.x).toBeCloseTo(500000, 3);
+    expect(centralMeridian.y).toBeCloseTo(0, 3);
+    expect(midLatitude.y).toBeCloseTo(4982950.4, 0);
+  });
+
+  it("rejects projections it cannot resample", () => {
+    expect(() => projectLngLat(-122.4, 37.7, 2227)).toThrow("EPSG:2227");
+  });
+
+  it("interpolates between cells and leaves nodata as NaN", () => {
+    const raster: DemRaster = {
+      data: new Float32Array([0, 10, 20, 30]),
+      width: 2,
+      height: 2,
+      epsg: 4326,
+      originX: 0,
+      originY: 2,
+      resolutionX: 1,
+      resolutionY: -1,
+    };
+    const withHole: DemRaster = {
+      ...raster,
+      data: new Float32Array([0, 10, 20, Number.NaN]),
+    };
+
+    expect(sampleDemRaster(raster, 1, 1.5)).toBeCloseTo(5);
+    expect(sampleDemRaster(raster, 1, 1)).toBeCloseTo(15);
+    expect(sampleDemRaster(withHole, 0.4, 1.6)).toBe(0);
+    expect(sampleDemRaster(withHole, 1.6, 0.4)).toBeNaN();
+    expect(sampleDemRaster(raster, 5, 5)).toBeNaN();
+  });
+
+  it("reads elevations and nodata from a GeoTIFF", async () => {
+    const raster = await readDemRaster(createGeographicTiff([1, 2, -9999, 4], 2, 2));
+
+    expect(raster.epsg).toBe(4326);
+    expect(raster.originX).toBeCloseTo(-122.5);
+    expect(raster.originY).toBeCloseTo(37.8);
+    expect(raster.data[1]).toBe(2);
+    expect(raster.data[2]).toBeNaN();
+  });
+
+  it("drives the terrain model and fills nodata from the fallback source", async () => {
+    const tiff = createGeographicTiff([3, 3, -9999, -9999], 2, 2);
+    const source = new GeoTiffElevationSource(
+      tiff,
+      new SyntheticElevationSource(() => 42)
+    );
+    const model = new TerrainRgbModel(
+      source,
+      { west: -122.49, east: -122.41, south: 37.71, north: 37.79 },
+      12,
+      16
+    );
+
+    await model.load();
+
+    expect(model.getElevation(-122.45, 37.78)).toBeCloseTo(3);
+    expect(model.getElevation(-122.45, 37.72)).toBe(42);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { findCurveJumps, getCurveLevels } from "../HypsometricCurve";
+
+describe("HypsometricCurve", () => {
+  it("sweeps the slider range and always ends at its maximum", () => {
+    const levels = getCurveLevels({ min: 25, max: 75, default: 30, presets: [] });
+    expect(levels).toHaveLength(51);
+    expect(levels[0]).toBe(25);
+    expect(levels.at(-1)).toBe(75);
+
+    expect(getCurveLevels({ min: 0, max: 2.5, default: 1, presets: [] })).toEqual([0, 1, 2, 2.5]);
+  });
+
+  it("finds the levels where the most land goes under at once", () => {
+    const curve = { levels: [0, 1, 2, 3, 4], areasKm2: [0, 0.5, 4, 4.2, 6] };
+
+    expect(findCurveJumps(curve, 2)).toEqual([2, 4]);
+    expect(findCurveJumps({ levels: [0, 1], areasKm2: [0, 0] })).toEqual([]);
+  });
+});
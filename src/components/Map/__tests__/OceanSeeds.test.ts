@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { rasterizeOceanSeeds, type OceanSeed } from "../OceanSeeds";
+
+describe("OceanSeeds", () => {
+  it("rasterizes seed polygons by cell center", () => {
+    const seeds: OceanSeed[] = [
+      {
+        id: "bay",
+        name: "Bay",
+        geometry: {
+          type: "Polygon",
+          coordinates: [
+            [
+              [1, 1],
+              [3, 1],
+              [3, 3],
+              [1, 3],
+              [1, 1],
+            ],
+          ],
+        },
+      },
+    ];
+
+    const seedMask = rasterizeOceanSeeds(seeds, 4, 4, (lng, lat) => ({
+      x: lng,
+      y: lat,
+    }));
+
+    expect(Array.from(seedMask)).toEqual([
+      0, 0, 0, 0,
+      0, 1, 1, 0,
+      0, 1, 1, 0,
+      0, 0, 0, 0,
+    ]);
+  });
+
+  it("leaves holes in multipolygon seeds unfilled", () => {
+    const seeds: OceanSeed[] = [
+      {
+        id: "lagoon",
+        name: "Lagoon",
+        geometry: {
+          type: "MultiPolygon",
+          coordinates: [
+            [
+              [
+                [0, 0],
+                [5, 0],
+                [5, 5],
+                [0, 5],
+                [0, 0],
+              ],
+              [
+                [2, 2],
+                [3, 2],
+                [3, 3],
+                [2, 3],
+                [2, 2],
+              ],
+            ],
+          ],
+        },
+      },
+    ];
+
+    const seedMask = rasterizeOceanSeeds(seeds, 5, 5, (lng, lat) => ({
+      x: lng,
+      y: lat,
+    }));
+
+    expect(seedMask[0]).toBe(1);
+    expect(seedMask[2 * 5 + 2]).toBe(0);
+    expect(seedMask[4 * 5 + 4]).toBe(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { RegionCamera } from "@/lib/regions";
+import {
+  getCameraPath,
+  clampSequenceLevels,
+  getFrameFileName,
+  getMaxPngFrames,
+  getSequenceFileName,
+  getSequenceFrames,
+  interpolateCamera,
+  type SequenceSettings,
+} from "../SequenceExport";
+
+const camera: RegionCamera = { center: [-122.4, 37.8], zoom: 12, pitch: 60, bearing: 350 };
+
+const waterLevels = { min: -2, max: 30, default: 1, presets: [] };
+
+const settings: SequenceSettings = {
+  fromLevel: 0,
+  toLevel: 10,
+  duration: 1,
+  fps: 5,
+  format: "webm",
+  cameraPath: [],
+};
+
+describe("SequenceExport", () => {
+  it("spreads the level range over duration × fps frames, ending on the top level", () => {
+    const frames = getSequenceFrames(settings, waterLevels);
+
+    expect(frames.map((frame) => frame.waterLevel)).toEqual([0, 2.5, 5, 7.5, 10]);
+    expect(frames.every((frame) => frame.camera === null)).toBe(true);
+    expect(getSequenceFrames({ ...settings, duration: 0.01 }, waterLevels)).toHaveLength(1);
+    expect(() => getSequenceFrames({ ...settings, fps: 0 }, waterLevels)).toThrow(
+      "Sequence duration and frame rate must be positive"
+    );
+    expect(() => getSequenceFrames({ ...settings, duration: 600, fps: 60 }, waterLevels)).toThrow(
+      "Sequences are limited to 3600 frames"
+    );
+  });
+
+  it("rejects emptied level fields and clamps levels to the region's range", () => {
+    expect(() => getSequenceFrames({ ...settings, fromLevel: Number.NaN }, waterLevels)).toThrow(
+      "Sequence water levels must be numbers"
+    );
+    expect(clampSequenceLevels({ ...settings, fromLevel: -10, toLevel: 99 }, waterLevels)).toEqual(
+      { ...settings, fromLevel: -2, toLevel: 30 }
+    );
+    expect(
+      getSequenceFrames({ ...settings, toLevel: 99, duration: 0.4 }, waterLevels).map(
+        (frame) => frame.waterLevel
+      )
+    ).toEqual([0, 30]);
+  });
+
+  it("bounds PNG sequences by the memory their frames take", () => {
+    expect(getMaxPngFrames(1920, 1080)).toBe(129);
+    expect(getMaxPngFrames(3840, 2160)).toBe(32);
+    expect(getMaxPngFrames(64, 64)).toBe(3600);
+    expect(() =>
+      getSequenceFrames({ ...settings, duration: 2, fps: 24 }, waterLevels, 32)
+    ).toThrow("PNG sequences at this map size are limited to 32 frames");
+  });
+
+  it("moves the camera through evenly spaced keyframes", () => {
+    const path = [
+      camera,
+      { ...camera, center: [-122.2, 37.6] as [number, number], zoom: 14 },
+      { ...camera, pitch: 0 },
+    ];
+
+    expect(interpolateCamera([], 0.5)).toBeNull();
+    expect(interpolateCamera([camera], 0.5)).toEqual(camera);
+    expect(interpolateCamera(path, 0.25)).toEqual({
+      center: [expect.closeTo(-122.3), expect.closeTo(37.7)],
+      zoom: 13,
+      pitch: 60,
+      bearing: 350,
+    });
+    expect(interpolateCamera(path, 1)).toEqual(path[2]);
+
+    const orbit = getSequenceFrames(
+      { ...settings, cameraPath: getCameraPath("orbit", camera) },
+      waterLevels
+    );
+    expect(orbit.map((frame) => frame.camera?.bearing)).toEqual([350, 372.5, 395, 417.5, 440]);
+    expect(getCameraPath("fixed", camera)).toEqual([]);
+  });
+
+  it("names the video, archive and frames", () => {
+    expect(getSequenceFileName("san-francisco", { ...settings, toLevel: 12.25 })).toBe(
+      "sea-rise-san-francisco-0_0-12_3m.webm"
+    );
+    expect(getSequenceFileName("san-francisco", { ...settings, format: "png-zip" })).toBe(
+      "sea-rise-san-francisco-0_0-10_0m-frames.zip"
+    );
+    expect(getFrameFileName(0)).toBe("frame-0001.png");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import {
+  getLegendLines,
+  getStoryboardFileName,
+  getStoryboardSize,
+  type StoryboardLegend,
+} from "../StoryboardExport";
+
+const legend: StoryboardLegend = {
+  regionId: "san-francisco",
+  regionName: "San Francisco",
+  waterLevel: 12.25,
+  center: { lng: -122.4194, lat: 37.7749 },
+  bearing: -20,
+  pitch: 72.4,
+  date: new Date("2025-01-02T03:04:05.678Z"),
+};
+
+describe("StoryboardExport", () => {
+  it("scales the view to fit 3840x2160 without changing its framing", () => {
+    expect(getStoryboardSize(1920, 1080)).toEqual({ width: 3840, height: 2160, pixelRatio: 2 });
+    expect(getStoryboardSize(1000, 1000)).toEqual({ width: 2160, height: 2160, pixelRatio: 2.16 });
+    expect(() => getStoryboardSize(0, 600)).toThrow("Map view has no size to export");
+  });
+
+  it("labels water level, position, camera and date", () => {
+    expect(getLegendLines(legend)).toEqual([
+      "San Francisco · water level 12.3 m",
+      "37.7749° N, 122.4194° W",
+      "Bearing 340° · Pitch 72°",
+      "2025-01-02",
+    ]);
+  });
+
+  it("names files after the region, level and time", () => {
+    expect(getStoryboardFileName(legend)).toBe(
+      "sea-rise-san-francisco-12_3m-2025-01-02T03-04-05Z.png"
+    );
+  });
+});
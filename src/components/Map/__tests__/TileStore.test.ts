@@ -0,0 +1,69 @@
+import { IDBFactory } from "fake-indexeddb";
+import { describe, expect, it, vi } from "vitest";
+import type { ElevationSource } from "../ElevationSources";
+import { CachedElevationSource, IndexedDbTileStore } from "../TileStore";
+
+function createSource(): ElevationSource & { loadTile: ReturnType<typeof vi.fn> } {
+  return {
+    id: "test",
+    name: "Test tiles",
+    loadTile: vi.fn(async (zoom: number, x: number, y: number, tileSize: number) =>
+      new Float32Array(tileSize * tileSize).fill(zoom * 100 + x * 10 + y)
+    ),
+  };
+}
+
+describe("TileStore", () => {
+  it("round-trips decoded tiles through IndexedDB", async () => {
+    const store = new IndexedDbTileStore(1024, "tiles-test", new IDBFactory());
+
+    await store.put("13/1/2", new Float32Array([1, 2, 3]));
+
+    expect(Array.from((await store.get("13/1/2")) ?? [])).toEqual([1, 2, 3]);
+    expect(await store.get("13/9/9")).toBeNull();
+    expect(await store.getUsage()).toEqual({ tiles: 1, bytes: 12 });
+
+    await store.clear();
+    expect(await store.getUsage()).toEqual({ tiles: 0, bytes: 0 });
+  });
+
+  it("evicts the least recently used tiles beyond the byte budget", async () => {
+    const store = new IndexedDbTileStore(32, "tiles-test", new IDBFactory());
+
+    await store.put("a", new Float32Array(4));
+    await store.put("b", new Float32Array(4));
+    await store.get("a");
+    await store.put("c", new Float32Array(4));
+
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("a")).not.toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+    expect((await store.getUsage()).bytes).toBeLessThanOrEqual(32);
+  });
+
+  it("serves warm starts without touching the underlying source", async () => {
+    const store = new IndexedDbTileStore(1024 * 1024, "tiles-test", new IDBFactory());
+    const coldSource = createSource();
+    const warmSource = createSource();
+
+    const cold = await new CachedElevationSource(coldSource, store).loadTile(13, 1, 2, 4);
+    const warm = await new CachedElevationSource(warmSource, store).loadTile(13, 1, 2, 4);
+
+    expect(coldSource.loadTile).toHaveBeenCalledTimes(1);
+    expect(warmSource.loadTile).not.toHaveBeenCalled();
+    expect(Array.from(warm)).toEqual(Array.from(cold));
+  });
+
+  it("keeps loading tiles when IndexedDB is unavailable", async () => {
+    const store = new IndexedDbTileStore(1024, "tiles-test", null);
+    const source = createSource();
+    const cached = new CachedElevationSource(source, store);
+
+    await cached.loadTile(13, 1, 2, 4);
+    await cached.loadTile(13, 1, 2, 4);
+
+    expect(store.isAvailable()).toBe(false);
+    expect(source.loadTile).toHaveBeenCalledTimes(1);
+    expect(cached.getTileKey(13, 1, 2, 4)).toBe("test@4/13/1/2");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { SyntheticElevationSource } from "../ElevationSources";
+import { boundsToTileRange, TerrainRgbModel } from "../FloodModel";
+import { buildDetailInflow, getDetailTileRange } from "../ViewportDetail";
+
+const VIEW = { west: -122.45, east: -122.4, south: 37.76, north: 37.79 };
+const CENTER = { lng: -122.425, lat: 37.775 };
+
+describe("ViewportDetail", () => {
+  it("refines one zoom above the map, capped at the detail zoom", () => {
+    expect(getDetailTileRange(VIEW, CENTER, 12.6, 13)).toBeNull();
+    expect(getDetailTileRange(VIEW, CENTER, 13.2, 13)?.zoom).toBe(14);
+    expect(getDetailTileRange(VIEW, CENTER, 17.5, 13)?.zoom).toBe(15);
+  });
+
+  it("limits the detail window around the camera target", () => {
+    const detail = getDetailTileRange(VIEW, CENTER, 15, 13, 15, 3);
+    const view = boundsToTileRange(VIEW, 15);
+
+    expect(detail).not.toBeNull();
+    if (!detail) return;
+    expect(detail.range.maxX - detail.range.minX + 1).toBeLessThanOrEqual(3);
+    expect(detail.range.maxY - detail.range.minY + 1).toBeLessThanOrEqual(3);
+    expect(detail.range.minX).toBeGreaterThanOrEqual(view.minX);
+    expect(detail.range.maxY).toBeLessThanOrEqual(view.maxY);
+  });
+
+  it("feeds the detail grid edges from the coarse spill levels", async () => {
+    const source = new SyntheticElevationSource((lng) => (lng < -122.43 ? 0 : 40));
+    const base = new TerrainRgbModel(
+      source,
+      { west: -122.8, east: -122.1, south: 37.5, north: 38 },
+      10,
+      16
+    );
+    const detail = new TerrainRgbModel(source, VIEW, 12, 16);
+    await Promise.all([base.load(), detail.load()]);
+
+    const baseLevels = base.getFloodLevels();
+    const inflow = await buildDetailInflow(detail, base, async (indices) =>
+      Float32Array.from(indices, (index) => baseLevels[index])
+    );
+    const { width, height } = detail.metadata;
+
+    expect(inflow).not.toBeNull();
+    if (!inflow) return;
+    expect(inflow.indices.length).toBe(2 * width + 2 * height - 4);
+    expect(Array.from(inflow.levels).every((level) => level === 0 || level === 40)).toBe(
+      true
+    );
+
+    detail.setInflow(inflow);
+    const mask = detail.buildFloodMask(10);
+    const west = detail.getCellIndex(-122.44, 37.775);
+    const east = detail.getCellIndex(-122.41, 37.775);
+
+    expect(west !== null && mask[west]).toBe(255);
+    expect(east !== null && mask[east]).toBe(0);
+  });
+});
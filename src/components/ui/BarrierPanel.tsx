@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useStore } from "@/lib/store";
+import { useDebounce } from "@/hooks/use-debounce";
+import { MAX_BARRIER_NAME_LENGTH } from "@/lib/scenarios";
+import type { FloodBarrier } from "@/components/Map/FloodBarriers";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+// Every committed crest height rebuilds the flood raster, so typing "12.5"
+// should cost one rebuild, not four.
+const CREST_EDIT_DEBOUNCE_MS = 400;
+
+function parseCrestHeight(value: string): number | null {
+  if (value.trim() === "") return null;
+
+  const crestHeight = Number(value);
+  return Number.isFinite(crestHeight) ? crestHeight : null;
+}
+
+// Keeps what is typed locally; an empty or partial entry never reaches the
+// store, and leaving the field restores the last valid height.
+function CrestHeightInput({ barrier }: { barrier: FloodBarrier }) {
+  const updateBarrier = useStore((state) => state.updateBarrier);
+  const [draft, setDraft] = useState(String(barrier.crestHeight));
+  const debouncedDraft = useDebounce(draft, CREST_EDIT_DEBOUNCE_MS);
+
+  useEffect(() => {
+    const crestHeight = parseCrestHeight(debouncedDraft);
+    if (crestHeight !== null && crestHeight !== barrier.crestHeight) {
+      updateBarrier(barrier.id, { crestHeight });
+    }
+  }, [barrier.crestHeight, barrier.id, debouncedDraft, updateBarrier]);
+
+  const commit = () => {
+    const crestHeight = parseCrestHeight(draft);
+    if (crestHeight === null) {
+      setDraft(String(barrier.crestHeight));
+    } else if (crestHeight !== barrier.crestHeight) {
+      updateBarrier(barrier.id, { crestHeight });
+    }
+  };
+
+  return (
+    <input
+      type="number"
+      step={0.5}
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      className="w-16 rounded bg-black/40 px-1 py-0.5 text-right text-white outline-none"
+    />
+  );
+}
+
+export function BarrierPanel() {
+  const barriers = useStore((state) => state.barriers);
+  const isDrawingBarrier = useStore((state) => state.isDrawingBarrier);
+  const setIsDrawingBarrier = useStore((state) => state.setIsDrawingBarrier);
+  const updateBarrier = useStore((state) => state.updateBarrier);
+  const removeBarrier = useStore((state) => state.removeBarrier);
+
+  return (
+    <Card className="w-72 gap-3 border-white/10 bg-black/65 py-4 text-white shadow-2xl backdrop-blur-sm">
+      <CardHeader className="px-4">
+        <CardTitle className="text-base">Levees &amp; Seawalls</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 px-4">
+        <button
+          onClick={() => setIsDrawingBarrier(!isDrawingBarrier)}
+          className={`w-full rounded border px-2 py-1 text-xs transition-colors ${
+            isDrawingBarrier
+              ? "border-amber-300 bg-amber-400/20 text-white"
+              : "border-white/10 bg-white/5 text-slate-200 hover:bg-white/10"
+          }`}
+        >
+          {isDrawingBarrier ? "Cancel drawing" : "Draw barrier"}
+        </button>
+
+        {isDrawingBarrier && (
+          <div className="text-xs text-slate-300">
+            Click to add points, double-click or Enter to finish, Esc to cancel.
+          </div>
+        )}
+
+        {barriers.length === 0 && !isDrawingBarrier && (
+          <div className="text-xs text-slate-400">No barriers yet.</div>
+        )}
+
+        <div className="max-h-56 space-y-2 overflow-y-auto">
+          {barriers.map((barrier) => (
+            <div
+              key={barrier.id}
+              className="space-y-1 rounded border border-white/10 bg-white/5 p-2 text-xs"
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  value={barrier.name}
+                  maxLength={MAX_BARRIER_NAME_LENGTH}
+                  onChange={(event) =>
+                    updateBarrier(barrier.id, { name: event.target.value })
+                  }
+                  className="min-w-0 flex-1 rounded bg-black/40 px-1 py-0.5 text-white outline-none"
+                  aria-label="Barrier name"
+                />
+                <button
+                  onClick={() => removeBarrier(barrier.id)}
+                  className="rounded px-1 text-slate-300 hover:bg-red-500/20 hover:text-red-300"
+                  aria-label={`Remove ${barrier.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+              <label className="flex items-center justify-between gap-2 text-slate-300">
+                <span>Crest height</span>
+                <span className="flex items-center gap-1">
+                  <CrestHeightInput barrier={barrier} />
+                  m
+                </span>
+              </label>
+              <div className="text-slate-400">{barrier.coordinates.length} vertices</div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import { useStore } from "@/lib/store";
+import {
+  buildFloodExport,
+  type FloodExportContext,
+  type FloodExportFile,
+  type FloodExportFormat,
+} from "@/components/Map/FloodExport";
+import type { SequenceRequest } from "@/components/Map/SequenceExport";
+import { SequenceExportForm } from "@/components/ui/SequenceExportForm";
+
+const GIS_EXPORT_OPTIONS: Array<{ format: FloodExportFormat; label: string }> = [
+  { format: "geojson", label: "Extent (GeoJSON)" },
+  { format: "kml", label: "Extent (KML)" },
+  { format: "mask-tiff", label: "Flood mask (GeoTIFF)" },
+  { format: "depth-tiff", label: "Depth grid (GeoTIFF)" },
+];
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function ExportMenu({
+  getContext,
+  captureStoryboard,
+  renderSequence,
+  disabled = false,
+}: {
+  getContext: () => FloodExportContext | null;
+  captureStoryboard: () => Promise<FloodExportFile | null>;
+  renderSequence: (
+    request: SequenceRequest,
+    onProgress: (completed: number, total: number) => void
+  ) => Promise<FloodExportFile | null>;
+  disabled?: boolean;
+}) {
+  const regionId = useStore((state) => state.regionId);
+  const isExporting = useStore((state) => state.isExporting);
+  const setIsExporting = useStore((state) => state.setIsExporting);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const runExport = async (build: () => Promise<FloodExportFile | null>) => {
+    setError(null);
+    setIsExporting(true);
+    try {
+      // Let the busy state paint before the encoders block the main thread.
+      await new Promise((resolve) => window.setTimeout(resolve, 0));
+      const file = await build();
+      if (!file) {
+        setError("The flood extent has not been solved yet.");
+        return;
+      }
+
+      downloadBlob(file.blob, file.fileName);
+      setIsOpen(false);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      {isOpen && (
+        <div className="absolute bottom-full right-0 mb-2 w-52 space-y-1 rounded-lg bg-black/80 p-2 text-xs text-slate-200 shadow-lg backdrop-blur-sm">
+          <button
+            onClick={() => void runExport(captureStoryboard)}
+            disabled={isExporting}
+            className="w-full rounded px-2 py-1 text-left hover:bg-white/10 disabled:opacity-40"
+          >
+            Storyboard (PNG, up to 4K)
+          </button>
+          {GIS_EXPORT_OPTIONS.map((option) => (
+            <button
+              key={option.format}
+              onClick={() =>
+                void runExport(async () => {
+                  const context = getContext();
+                  return context ? buildFloodExport(context, option.format) : null;
+                })
+              }
+              disabled={isExporting}
+              className="w-full rounded px-2 py-1 text-left hover:bg-white/10 disabled:opacity-40"
+            >
+              {option.label}
+            </button>
+          ))}
+          <div className="px-2 text-[11px] text-slate-400">
+            GIS files use the region-wide base grid, not the finer detail shown close up.
+          </div>
+          <SequenceExportForm
+            key={regionId}
+            disabled={isExporting}
+            onExport={(request) =>
+              void runExport(() =>
+                renderSequence(request, (completed, total) =>
+                  setProgress(`${completed}/${total}`)
+                )
+              )
+            }
+          />
+          {error && <div className="px-2 pt-1 text-red-300">{error}</div>}
+        </div>
+      )}
+
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="rounded-lg bg-black/70 px-3 py-2 text-sm text-white shadow-lg backdrop-blur-sm hover:bg-black/80 disabled:opacity-40"
+      >
+        {isExporting ? `Exporting…${progress ? ` ${progress}` : ""}` : "Export"}
+      </button>
+    </div>
+  );
+}
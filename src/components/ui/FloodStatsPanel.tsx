@@ -0,0 +1,31 @@
+"use client";
+
+import { useStore } from "@/lib/store";
+import { formatArea, formatLength } from "@/lib/units";
+import type { FloodStats } from "@/components/Map/FloodStats";
+
+export function FloodStatsPanel({ stats }: { stats: FloodStats | null }) {
+  const units = useStore((state) => state.units);
+
+  if (!stats) return null;
+
+  return (
+    <div className="rounded-lg bg-black/55 px-3 py-2 text-sm text-white shadow-lg backdrop-blur-sm">
+      <div className="font-medium">Flooded at +{formatLength(stats.waterLevel, units)}</div>
+      <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-3 text-xs text-white/80">
+        <dt>Land flooded</dt>
+        <dd className="text-right tabular-nums">{formatArea(stats.floodedKm2, units)}</dd>
+        <dt>Share of land</dt>
+        <dd className="text-right tabular-nums">{(stats.floodedShare * 100).toFixed(1)}%</dd>
+        {stats.previousWaterLevel !== null && (
+          <>
+            <dt>New since +{formatLength(stats.previousWaterLevel, units)}</dt>
+            <dd className="text-right tabular-nums">
+              {formatArea(stats.newlyFloodedKm2, units)}
+            </dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+}
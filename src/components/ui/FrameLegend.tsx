@@ -0,0 +1,52 @@
+"use client";
+
+import { useStore } from "@/lib/store";
+
+export function FrameLegend() {
+  const legendVisible = useStore((state) => state.legendVisible);
+  const setLegendVisible = useStore((state) => state.setLegendVisible);
+
+  if (!legendVisible) {
+    return (
+      <button
+        onClick={() => setLegendVisible(true)}
+        className="rounded-lg bg-black/70 px-3 py-2 text-xs text-white shadow-lg backdrop-blur-sm hover:bg-black/80"
+      >
+        Show legend
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-black/70 px-4 py-3 text-white shadow-lg backdrop-blur-sm">
+      <div className="mb-2 flex items-center justify-between gap-4">
+        <h3 className="text-sm font-semibold">Reading the frame</h3>
+        <button
+          onClick={() => setLegendVisible(false)}
+          className="rounded px-1 text-xs text-slate-300 hover:bg-white/10"
+          aria-label="Hide legend"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="space-y-1 text-xs text-slate-200">
+        <div className="flex items-center gap-2">
+          <div className="h-3 w-3 rounded bg-sky-400"></div>
+          <span>Water plane = connected ocean reach only</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="h-3 w-3 rounded bg-slate-300"></div>
+          <span>Buildings stay solid for skyline silhouette checks</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="h-3 w-3 rounded bg-emerald-400"></div>
+          <span>Hover terrain/buildings to inspect clearance</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="h-3 w-3 rounded bg-amber-300"></div>
+          <span>Best used with a low pitch and rotated street approach</span>
+        </div>
+      </div>
+    </div>
+  );
+}
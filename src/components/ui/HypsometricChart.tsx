@@ -0,0 +1,119 @@
+"use client";
+
+import { useState, type MouseEvent } from "react";
+import { useStore } from "@/lib/store";
+import { formatArea, formatLength } from "@/lib/units";
+import {
+  findCurveJumps,
+  type HypsometricCurveState,
+} from "@/components/Map/HypsometricCurve";
+
+const WIDTH = 256;
+const HEIGHT = 112;
+const PADDING = 6;
+
+export function HypsometricChart({
+  curveState,
+  onSelectLevel,
+}: {
+  curveState: HypsometricCurveState;
+  onSelectLevel: (level: number) => void;
+}) {
+  const units = useStore((state) => state.units);
+  const waterLevel = useStore((state) => state.waterLevel);
+  const [hovered, setHovered] = useState<number | null>(null);
+  const { curve, error } = curveState;
+
+  if (!curve) {
+    return (
+      <div className="rounded-lg bg-black/55 px-3 py-2 text-xs text-white/80 shadow-lg backdrop-blur-sm">
+        {error ? `Flood curve unavailable: ${error}` : "Sweeping water levels…"}
+      </div>
+    );
+  }
+
+  const { levels, areasKm2 } = curve;
+  const minLevel = levels[0];
+  const levelSpan = Math.max(levels[levels.length - 1] - minLevel, 1e-9);
+  const maxArea = Math.max(areasKm2[areasKm2.length - 1], 1e-9);
+  const bottom = HEIGHT - PADDING;
+  const toX = (level: number) =>
+    PADDING + ((level - minLevel) / levelSpan) * (WIDTH - 2 * PADDING);
+  const toY = (area: number) => bottom - (area / maxArea) * (HEIGHT - 2 * PADDING);
+  const path = levels
+    .map((level, index) => `${index === 0 ? "M" : "L"}${toX(level)},${toY(areasKm2[index])}`)
+    .join(" ");
+  const fill = `${path} L${toX(levels[levels.length - 1])},${bottom} L${PADDING},${bottom} Z`;
+  const jumps = findCurveJumps(curve);
+  const readout = hovered ?? levels.findIndex((level) => level >= waterLevel);
+
+  const nearestIndex = (event: MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    const level = minLevel + ((x - PADDING) / (WIDTH - 2 * PADDING)) * levelSpan;
+    let nearest = 0;
+    levels.forEach((candidate, index) => {
+      if (Math.abs(candidate - level) < Math.abs(levels[nearest] - level)) nearest = index;
+    });
+    return nearest;
+  };
+
+  return (
+    <div className="rounded-lg bg-black/55 px-3 py-2 text-xs text-white shadow-lg backdrop-blur-sm">
+      <div className="flex justify-between gap-3">
+        <span className="font-medium">Flooded land by water level</span>
+        {readout >= 0 && (
+          <span className="tabular-nums text-white/80">
+            +{formatLength(levels[readout], units, 0)} ·{" "}
+            {formatArea(areasKm2[readout], units, 1)}
+          </span>
+        )}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width={WIDTH}
+        height={HEIGHT}
+        className="mt-1 cursor-crosshair"
+        onMouseMove={(event) => setHovered(nearestIndex(event))}
+        onMouseLeave={() => setHovered(null)}
+        onClick={(event) => onSelectLevel(levels[nearestIndex(event)])}
+        role="img"
+        aria-label="Flooded land area against water level; click to set the water level"
+      >
+        <path d={fill} className="fill-sky-400/20" />
+        <path d={path} className="fill-none stroke-sky-300" strokeWidth={1.5} />
+        <line
+          x1={toX(waterLevel)}
+          x2={toX(waterLevel)}
+          y1={PADDING}
+          y2={bottom}
+          className="stroke-white/70"
+          strokeDasharray="3 2"
+        />
+        {jumps.map((index) => (
+          <circle
+            key={index}
+            cx={toX(levels[index])}
+            cy={toY(areasKm2[index])}
+            r={3.5}
+            className="fill-amber-300"
+          >
+            <title>
+              +{formatArea(areasKm2[index] - areasKm2[index - 1], units, 1)} between +
+              {formatLength(levels[index - 1], units, 0)} and +
+              {formatLength(levels[index], units, 0)}
+            </title>
+          </circle>
+        ))}
+        {hovered !== null && (
+          <circle
+            cx={toX(levels[hovered])}
+            cy={toY(areasKm2[hovered])}
+            r={3}
+            className="fill-white"
+          />
+        )}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useStore } from "@/lib/store";
+import { getRegion, REGIONS } from "@/lib/regions";
+
+export function RegionSwitcher() {
+  const regionId = useStore((state) => state.regionId);
+  const setRegion = useStore((state) => state.setRegion);
+  const region = getRegion(regionId);
+
+  return (
+    <div className="rounded-lg bg-black/70 px-4 py-3 text-white shadow-lg backdrop-blur-sm">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-xl font-bold">{region.displayName} Flood Storyboard</h1>
+        {REGIONS.length > 1 && (
+          <select
+            value={regionId}
+            onChange={(event) => setRegion(event.target.value)}
+            className="rounded border border-white/10 bg-black/40 px-2 py-1 text-xs text-slate-200 outline-none"
+            aria-label="Region"
+          >
+            {REGIONS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.displayName}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {region.tagline && <p className="text-sm text-slate-300">{region.tagline}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { selectScene, useStore } from "@/lib/store";
+import { getRegion } from "@/lib/regions";
+import { formatLength } from "@/lib/units";
+import {
+  deleteScenario,
+  getSharePath,
+  listScenarios,
+  loadScenario,
+  saveScenario,
+  shareScenario,
+  SHARE_EXPIRY_OPTIONS,
+  type ScenarioInput,
+  type ScenarioSummary,
+} from "@/lib/scenarios";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+function getCurrentScenario(name: string, notes: string): ScenarioInput {
+  const state = useStore.getState();
+  const { regionId, waterLevel, camera } = selectScene(state);
+  return { name, notes, regionId, waterLevel, camera, barriers: state.barriers };
+}
+
+export function ScenarioPanel() {
+  const units = useStore((state) => state.units);
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [notes, setNotes] = useState("");
+  const [shareExpiry, setShareExpiry] = useState<number | null>(7);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void run(async () => setScenarios(await listScenarios()));
+  }, [run]);
+
+  // Saving over the open scenario keeps its id; "Save as new" always adds one.
+  const save = (asNew: boolean) =>
+    run(async () => {
+      const scenario = await saveScenario(
+        getCurrentScenario(name, notes),
+        asNew ? undefined : (activeId ?? undefined)
+      );
+      setActiveId(scenario.id);
+      setName(scenario.name);
+      setScenarios(await listScenarios());
+    });
+
+  const open = (id: string) =>
+    run(async () => {
+      const scenario = await loadScenario(id);
+      useStore.getState().applyScenario(
+        { regionId: scenario.regionId, waterLevel: scenario.waterLevel, camera: scenario.camera },
+        scenario.barriers
+      );
+      setActiveId(scenario.id);
+      setName(scenario.name);
+      setNotes(scenario.notes);
+    });
+
+  // Publishes what is on screen now, so later edits are not visible through the link.
+  const share = () =>
+    run(async () => {
+      const shared = await shareScenario({
+        scenario: getCurrentScenario(name.trim() || "Shared scenario", notes),
+        expiresInDays: shareExpiry,
+      });
+      setShareUrl(new URL(getSharePath(shared.id), window.location.origin).toString());
+    });
+
+  const remove = (id: string) =>
+    run(async () => {
+      await deleteScenario(id);
+      if (id === activeId) setActiveId(null);
+      setScenarios((current) => current.filter((scenario) => scenario.id !== id));
+    });
+
+  return (
+    <Card className="w-72 gap-3 border-white/10 bg-black/65 py-4 text-white shadow-2xl backdrop-blur-sm">
+      <CardHeader className="px-4">
+        <CardTitle className="text-base">Scenarios</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 px-4 text-xs">
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Scenario name"
+          className="w-full rounded bg-black/40 px-2 py-1 text-white outline-none"
+          aria-label="Scenario name"
+        />
+        <textarea
+          value={notes}
+          onChange={(event) => setNotes(event.target.value)}
+          placeholder="Notes"
+          rows={2}
+          className="w-full resize-none rounded bg-black/40 px-2 py-1 text-white outline-none"
+          aria-label="Scenario notes"
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => save(false)}
+            disabled={isBusy || !name.trim()}
+            className="flex-1 rounded border border-white/10 bg-white/5 px-2 py-1 text-slate-200 transition-colors hover:bg-white/10 disabled:opacity-40"
+          >
+            {activeId ? "Save" : "Save scenario"}
+          </button>
+          {activeId && (
+            <button
+              onClick={() => save(true)}
+              disabled={isBusy || !name.trim()}
+              className="flex-1 rounded border border-white/10 bg-white/5 px-2 py-1 text-slate-200 transition-colors hover:bg-white/10 disabled:opacity-40"
+            >
+              Save as new
+            </button>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={shareExpiry ?? ""}
+            onChange={(event) =>
+              setShareExpiry(event.target.value ? Number(event.target.value) : null)
+            }
+            className="rounded bg-black/40 px-1 py-1 text-white"
+            aria-label="Share link expiry"
+          >
+            {SHARE_EXPIRY_OPTIONS.map((days) => (
+              <option key={days ?? "never"} value={days ?? ""}>
+                {days === null ? "Never expires" : `Expires in ${days}d`}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={share}
+            disabled={isBusy}
+            className="flex-1 rounded border border-white/10 bg-white/5 px-2 py-1 text-slate-200 transition-colors hover:bg-white/10 disabled:opacity-40"
+          >
+            Share read-only link
+          </button>
+        </div>
+        {shareUrl && (
+          <div className="flex items-center gap-1">
+            <input
+              value={shareUrl}
+              readOnly
+              onFocus={(event) => event.target.select()}
+              className="min-w-0 flex-1 rounded bg-black/40 px-2 py-1 text-slate-200 outline-none"
+              aria-label="Share link"
+            />
+            <button
+              onClick={() => void navigator.clipboard?.writeText(shareUrl)}
+              className="rounded px-1 text-slate-300 hover:bg-white/10"
+            >
+              Copy
+            </button>
+          </div>
+        )}
+
+        {error && <div className="text-red-300">{error}</div>}
+        {scenarios.length === 0 && !error && (
+          <div className="text-slate-400">No saved scenarios yet.</div>
+        )}
+
+        <div className="max-h-56 space-y-1 overflow-y-auto">
+          {scenarios.map((scenario) => (
+            <div
+              key={scenario.id}
+              className={`flex items-center gap-1 rounded border px-2 py-1 ${
+                scenario.id === activeId
+                  ? "border-sky-300/60 bg-sky-400/10"
+                  : "border-white/10 bg-white/5"
+              }`}
+            >
+              <button
+                onClick={() => open(scenario.id)}
+                disabled={isBusy}
+                className="min-w-0 flex-1 text-left hover:text-white disabled:opacity-40"
+              >
+                <div className="truncate text-white">{scenario.name}</div>
+                <div className="text-slate-400">
+                  {getRegion(scenario.regionId).displayName} · +
+                  {formatLength(scenario.waterLevel, units)}
+                </div>
+              </button>
+              <button
+                onClick={() => remove(scenario.id)}
+                disabled={isBusy}
+                className="rounded px-1 text-slate-300 hover:bg-red-500/20 hover:text-red-300 disabled:opacity-40"
+                aria-label={`Delete ${scenario.name}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
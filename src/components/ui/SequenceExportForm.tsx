@@ -0,0 +1,111 @@
+"use client";
+
+import { useState } from "react";
+import { useStore } from "@/lib/store";
+import { getRegion } from "@/lib/regions";
+import type {
+  SequenceCameraMotion,
+  SequenceFormat,
+  SequenceRequest,
+} from "@/components/Map/SequenceExport";
+
+const DEFAULT_DURATION = 8;
+const DEFAULT_FPS = 24;
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  min,
+  max,
+  step = 1,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-slate-400">{label}</span>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(event) => onChange(event.target.valueAsNumber)}
+        className="w-16 rounded bg-white/10 px-1.5 py-0.5 text-right text-white"
+      />
+    </label>
+  );
+}
+
+export function SequenceExportForm({
+  onExport,
+  disabled = false,
+}: {
+  onExport: (request: SequenceRequest) => void;
+  disabled?: boolean;
+}) {
+  const waterLevels = useStore((state) => getRegion(state.regionId).waterLevels);
+  const [fromLevel, setFromLevel] = useState(waterLevels.min);
+  const [toLevel, setToLevel] = useState(waterLevels.max);
+  const [duration, setDuration] = useState(DEFAULT_DURATION);
+  const [fps, setFps] = useState(DEFAULT_FPS);
+  const [motion, setMotion] = useState<SequenceCameraMotion>("fixed");
+
+  const exportAs = (format: SequenceFormat) =>
+    onExport({ fromLevel, toLevel, duration, fps, format, motion });
+
+  return (
+    <div className="space-y-1 border-t border-white/10 px-2 pt-2">
+      <div className="font-medium text-white">Rising water</div>
+      <NumberField
+        label="From (m)"
+        value={fromLevel}
+        onChange={setFromLevel}
+        min={waterLevels.min}
+        max={waterLevels.max}
+      />
+      <NumberField
+        label="To (m)"
+        value={toLevel}
+        onChange={setToLevel}
+        min={waterLevels.min}
+        max={waterLevels.max}
+      />
+      <NumberField label="Seconds" value={duration} onChange={setDuration} min={1} step={0.5} />
+      <NumberField label="FPS" value={fps} onChange={setFps} min={1} max={60} />
+      <label className="flex items-center justify-between gap-2">
+        <span className="text-slate-400">Camera</span>
+        <select
+          value={motion}
+          onChange={(event) => setMotion(event.target.value as SequenceCameraMotion)}
+          className="rounded bg-white/10 px-1 py-0.5 text-white"
+        >
+          <option value="fixed">Fixed</option>
+          <option value="orbit">Orbit 90°</option>
+        </select>
+      </label>
+      <div className="flex gap-1 pt-1">
+        <button
+          onClick={() => exportAs("webm")}
+          disabled={disabled}
+          className="flex-1 rounded bg-white/10 px-2 py-1 hover:bg-white/20 disabled:opacity-40"
+        >
+          WebM
+        </button>
+        <button
+          onClick={() => exportAs("png-zip")}
+          disabled={disabled}
+          className="flex-1 rounded bg-white/10 px-2 py-1 hover:bg-white/20 disabled:opacity-40"
+        >
+          PNG frames
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect } from "react";
+import { useStore } from "@/lib/store";
+import { useShotStore, type CameraShot } from "@/lib/shots";
+import { getRegion, type RegionCamera } from "@/lib/regions";
+import { formatLength } from "@/lib/units";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export function ShotList({
+  getCamera,
+  onRecall,
+  disabled = false,
+}: {
+  getCamera: () => RegionCamera | null;
+  onRecall: (shot: CameraShot) => void;
+  disabled?: boolean;
+}) {
+  const shots = useShotStore((state) => state.shots);
+  const addShot = useShotStore((state) => state.addShot);
+  const renameShot = useShotStore((state) => state.renameShot);
+  const moveShot = useShotStore((state) => state.moveShot);
+  const removeShot = useShotStore((state) => state.removeShot);
+  const units = useStore((state) => state.units);
+
+  useEffect(() => {
+    void useShotStore.persist.rehydrate();
+  }, []);
+
+  const saveShot = () => {
+    const camera = getCamera();
+    if (!camera) return;
+
+    const { regionId, waterLevel } = useStore.getState();
+    addShot({ regionId, camera, waterLevel });
+  };
+
+  return (
+    <Card className="w-72 gap-3 border-white/10 bg-black/65 py-4 text-white shadow-2xl backdrop-blur-sm">
+      <CardHeader className="px-4">
+        <CardTitle className="text-base">Shot List</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 px-4">
+        <button
+          onClick={saveShot}
+          disabled={disabled}
+          className="w-full rounded border border-white/10 bg-white/5 px-2 py-1 text-xs text-slate-200 transition-colors hover:bg-white/10 disabled:opacity-40"
+        >
+          Save current shot
+        </button>
+
+        {shots.length === 0 && (
+          <div className="text-xs text-slate-400">No saved shots yet.</div>
+        )}
+
+        <div className="max-h-56 space-y-2 overflow-y-auto">
+          {shots.map((shot, index) => (
+            <div
+              key={shot.id}
+              className="space-y-1 rounded border border-white/10 bg-white/5 p-2 text-xs"
+            >
+              <div className="flex items-center gap-1">
+                <input
+                  value={shot.name}
+                  onChange={(event) => renameShot(shot.id, event.target.value)}
+                  className="min-w-0 flex-1 rounded bg-black/40 px-1 py-0.5 text-white outline-none"
+                  aria-label="Shot name"
+                />
+                <button
+                  onClick={() => moveShot(shot.id, -1)}
+                  disabled={index === 0}
+                  className="rounded px-1 text-slate-300 hover:bg-white/10 disabled:opacity-30"
+                  aria-label={`Move ${shot.name} up`}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => moveShot(shot.id, 1)}
+                  disabled={index === shots.length - 1}
+                  className="rounded px-1 text-slate-300 hover:bg-white/10 disabled:opacity-30"
+                  aria-label={`Move ${shot.name} down`}
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => removeShot(shot.id)}
+                  className="rounded px-1 text-slate-300 hover:bg-red-500/20 hover:text-red-300"
+                  aria-label={`Remove ${shot.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+              <button
+                onClick={() => onRecall(shot)}
+                disabled={disabled}
+                className="flex w-full justify-between rounded px-1 py-0.5 text-left text-slate-300 hover:bg-white/10 disabled:opacity-40"
+              >
+                <span>
+                  {getRegion(shot.regionId).displayName} · +{formatLength(shot.waterLevel, units)}
+                </span>
+                <span className="text-slate-400">
+                  {Math.round(shot.camera.pitch)}° / {Math.round(shot.camera.bearing)}°
+                </span>
+              </button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getTerrainTileStore, type TileStoreUsage } from "@/components/Map/TileStore";
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+}
+
+export function TerrainCacheControl({ refreshKey }: { refreshKey?: unknown }) {
+  const [usage, setUsage] = useState<TileStoreUsage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    const store = getTerrainTileStore();
+    if (!store.isAvailable()) return;
+
+    let cancelled = false;
+    store
+      .getUsage()
+      .then((next) => {
+        if (!cancelled) setUsage(next);
+      })
+      .catch(() => {
+        if (!cancelled) setUsage(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey, isClearing]);
+
+  if (!usage) return null;
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    try {
+      await getTerrainTileStore().clear();
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="mt-1 flex items-center justify-between gap-3 text-xs text-white/70">
+      <span>
+        Tile cache: {usage.tiles} tiles, {formatMegabytes(usage.bytes)}
+      </span>
+      <button
+        onClick={() => void handleClear()}
+        disabled={isClearing || usage.tiles === 0}
+        className="pointer-events-auto rounded border border-white/10 bg-white/5 px-2 py-0.5 text-slate-200 hover:bg-white/10 disabled:opacity-40"
+      >
+        {isClearing ? "Clearing…" : "Clear"}
+      </button>
+    </div>
+  );
+}
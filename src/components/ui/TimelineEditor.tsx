@@ -0,0 +1,259 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useStore } from "@/lib/store";
+import { getRegionKeyframes, useTimelineStore } from "@/lib/timeline";
+import { findRegion, type RegionCamera } from "@/lib/regions";
+import { formatLength } from "@/lib/units";
+import {
+  getTimelineDuration,
+  sampleTimeline,
+  TIMELINE_EASINGS,
+  type TimelineEasing,
+  type TimelineSample,
+} from "@/components/Map/CameraTimeline";
+
+const KEYFRAME_GAP_SECONDS = 2;
+const SAME_TIME_EPSILON = 0.01;
+
+export function TimelineEditor({
+  getCamera,
+  onSample,
+  disabled = false,
+}: {
+  getCamera: () => RegionCamera | null;
+  onSample: (sample: TimelineSample) => void;
+  disabled?: boolean;
+}) {
+  const allKeyframes = useTimelineStore((state) => state.keyframes);
+  const regionId = useStore((state) => state.regionId);
+  const setRegion = useStore((state) => state.setRegion);
+  const keyframes = useMemo(
+    () => getRegionKeyframes(allKeyframes, regionId),
+    [allKeyframes, regionId]
+  );
+  // Regions other than this one that have keyframes of their own.
+  const otherRegions = useMemo(
+    () =>
+      [...new Set(allKeyframes.map((keyframe) => keyframe.regionId))]
+        .filter((id) => id !== regionId)
+        .flatMap((id) => findRegion(id) ?? []),
+    [allKeyframes, regionId]
+  );
+  const addKeyframe = useTimelineStore((state) => state.addKeyframe);
+  const updateKeyframe = useTimelineStore((state) => state.updateKeyframe);
+  const removeKeyframe = useTimelineStore((state) => state.removeKeyframe);
+  const units = useStore((state) => state.units);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playheadRef = useRef(0);
+  const duration = getTimelineDuration(keyframes);
+
+  useEffect(() => {
+    void useTimelineStore.persist.rehydrate();
+  }, []);
+
+  const seek = useCallback(
+    (time: number) => {
+      playheadRef.current = time;
+      setPlayhead(time);
+
+      const sample = sampleTimeline(
+        getRegionKeyframes(useTimelineStore.getState().keyframes, useStore.getState().regionId),
+        time
+      );
+      if (sample) onSample(sample);
+    },
+    [onSample]
+  );
+
+  // Another region's timeline starts from the top rather than mid-flight.
+  useEffect(() => {
+    setIsPlaying(false);
+    playheadRef.current = 0;
+    setPlayhead(0);
+  }, [regionId]);
+
+  // Lets the URL and saved settings skip the frames until playback stops.
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    useStore.getState().setIsPlayingTimeline(true);
+    return () => useStore.getState().setIsPlayingTimeline(false);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame = 0;
+    let previous = performance.now();
+
+    const tick = (now: number) => {
+      const time = Math.min(playheadRef.current + (now - previous) / 1000, duration);
+      previous = now;
+      seek(time);
+
+      if (time >= duration) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = window.requestAnimationFrame(tick);
+    };
+
+    frame = window.requestAnimationFrame(tick);
+    return () => window.cancelAnimationFrame(frame);
+  }, [duration, isPlaying, seek]);
+
+  const togglePlayback = () => {
+    if (!isPlaying && playheadRef.current >= duration) {
+      seek(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  // Adds at the playhead unless a keyframe is already there, in which case the
+  // new one goes on the end.
+  const addAtPlayhead = () => {
+    const camera = getCamera();
+    if (!camera) return;
+
+    const occupied = keyframes.some(
+      (keyframe) => Math.abs(keyframe.time - playhead) < SAME_TIME_EPSILON
+    );
+    const time = occupied ? duration + KEYFRAME_GAP_SECONDS : playhead;
+
+    addKeyframe({
+      regionId,
+      time,
+      camera,
+      waterLevel: useStore.getState().waterLevel,
+      easing: "ease-in-out",
+    });
+    playheadRef.current = time;
+    setPlayhead(time);
+  };
+
+  const captureInto = (id: string) => {
+    const camera = getCamera();
+    if (camera) updateKeyframe(id, { camera, waterLevel: useStore.getState().waterLevel });
+  };
+
+  return (
+    <div className="w-[30rem] space-y-2 rounded-lg bg-black/70 p-3 text-xs text-slate-200 shadow-lg backdrop-blur-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-semibold text-white">Timeline</span>
+        <button
+          onClick={togglePlayback}
+          disabled={disabled || keyframes.length < 2}
+          className="rounded bg-white/10 px-2 py-0.5 hover:bg-white/20 disabled:opacity-40"
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </button>
+        <span className="tabular-nums text-slate-400">
+          {playhead.toFixed(2)}s / {duration.toFixed(2)}s
+        </span>
+        <button
+          onClick={addAtPlayhead}
+          disabled={disabled || isPlaying}
+          className="ml-auto rounded bg-white/10 px-2 py-0.5 hover:bg-white/20 disabled:opacity-40"
+        >
+          Add keyframe
+        </button>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={duration}
+        step={0.01}
+        value={Math.min(playhead, duration)}
+        onChange={(event) => {
+          setIsPlaying(false);
+          seek(event.target.valueAsNumber);
+        }}
+        disabled={disabled || keyframes.length === 0}
+        className="w-full accent-sky-400"
+        aria-label="Timeline scrubber"
+      />
+
+      {keyframes.length === 0 && (
+        <div className="text-slate-400">
+          Frame a shot and add a keyframe; add more to animate between them.
+        </div>
+      )}
+
+      {otherRegions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-slate-400">
+          <span>Timelines saved for</span>
+          {otherRegions.map((region) => (
+            <button
+              key={region.id}
+              onClick={() => setRegion(region.id)}
+              disabled={disabled || isPlaying}
+              className="rounded bg-white/10 px-1.5 py-0.5 text-slate-200 hover:bg-white/20 disabled:opacity-40"
+            >
+              {region.displayName}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="max-h-36 space-y-1 overflow-y-auto">
+        {keyframes.map((keyframe) => (
+          <div key={keyframe.id} className="flex items-center gap-2 rounded bg-white/5 px-2 py-1">
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={keyframe.time}
+              onChange={(event) => {
+                const time = event.target.valueAsNumber;
+                if (Number.isFinite(time) && time >= 0) updateKeyframe(keyframe.id, { time });
+              }}
+              className="w-14 rounded bg-black/40 px-1 py-0.5 text-right text-white outline-none"
+              aria-label="Keyframe time in seconds"
+            />
+            <span className="text-slate-400">s</span>
+            <span className="w-14">+{formatLength(keyframe.waterLevel, units)}</span>
+            <select
+              value={keyframe.easing}
+              onChange={(event) =>
+                updateKeyframe(keyframe.id, { easing: event.target.value as TimelineEasing })
+              }
+              className="rounded bg-black/40 px-1 py-0.5 text-white"
+              aria-label="Easing to the next keyframe"
+            >
+              {TIMELINE_EASINGS.map((easing) => (
+                <option key={easing} value={easing}>
+                  {easing}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => seek(keyframe.time)}
+              disabled={disabled || isPlaying}
+              className="ml-auto rounded px-1 hover:bg-white/10 disabled:opacity-40"
+            >
+              Go
+            </button>
+            <button
+              onClick={() => captureInto(keyframe.id)}
+              disabled={disabled || isPlaying}
+              className="rounded px-1 hover:bg-white/10 disabled:opacity-40"
+              title="Replace with the current view and water level"
+            >
+              Set
+            </button>
+            <button
+              onClick={() => removeKeyframe(keyframe.id)}
+              className="rounded px-1 text-slate-300 hover:bg-red-500/20 hover:text-red-300"
+              aria-label="Remove keyframe"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -5,78 +5,105 @@ import { useStore } from "@/lib/store";
 import { useDebounce } from "@/hooks/use-debounce";
 import { Slider } from "@/components/ui/slider";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getRegion, type RegionWaterLevels } from "@/lib/regions";
+import { formatLength, getLengthUnit, UNIT_SYSTEMS } from "@/lib/units";
 
-const PRESETS = [25, 50, 75];
+function getLevelFraction(level: number, range: RegionWaterLevels): number {
+  return (level - range.min) / (range.max - range.min);
+}
 
-function getWaterTone(level: number): string {
-  if (level < 40) return "text-cyan-400";
-  if (level < 60) return "text-sky-400";
+function getWaterTone(fraction: number): string {
+  if (fraction < 0.3) return "text-cyan-400";
+  if (fraction < 0.7) return "text-sky-400";
   return "text-blue-400";
 }
 
-function getNarrativeLabel(level: number): string {
-  if (level <= 30) return "Coastal districts become canals";
-  if (level <= 45) return "Downtown shoreline pushes inland";
-  if (level <= 60) return "Mid-city blocks begin to drown";
+function getNarrativeLabel(fraction: number): string {
+  if (fraction <= 0.1) return "Coastal districts become canals";
+  if (fraction <= 0.4) return "Downtown shoreline pushes inland";
+  if (fraction <= 0.7) return "Mid-city blocks begin to drown";
   return "High-water sci-fi skyline framing";
 }
 
 export function WaterLevelSlider() {
   const waterLevel = useStore((state) => state.waterLevel);
   const setWaterLevel = useStore((state) => state.setWaterLevel);
+  const setSelectedPreset = useStore((state) => state.setSelectedPreset);
+  const units = useStore((state) => state.units);
+  const setUnits = useStore((state) => state.setUnits);
+  const waterLevels = useStore((state) => getRegion(state.regionId).waterLevels);
   const debouncedWaterLevel = useDebounce(waterLevel, 50);
+  const fraction = getLevelFraction(debouncedWaterLevel, waterLevels);
+  const midLevel = (waterLevels.min + waterLevels.max) / 2;
 
   const handleValueChange = useCallback(
     (values: number[]) => {
       setWaterLevel(values[0]);
+      setSelectedPreset(null);
     },
-    [setWaterLevel]
+    [setSelectedPreset, setWaterLevel]
   );
 
   const sliderValue = useMemo(() => [waterLevel], [waterLevel]);
 
   return (
     <Card className="w-80 min-w-80 border-white/10 bg-black/65 text-white shadow-2xl backdrop-blur-sm">
-      <CardHeader className="pb-3">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
         <CardTitle className="text-lg">Water Plane</CardTitle>
+        <div className="flex gap-1 text-xs">
+          {UNIT_SYSTEMS.map((system) => (
+            <button
+              key={system}
+              onClick={() => setUnits(system)}
+              className={`rounded px-1.5 py-0.5 transition-colors ${
+                units === system ? "bg-sky-500/30 text-white" : "text-slate-400 hover:bg-white/10"
+              }`}
+            >
+              {getLengthUnit(system)}
+            </button>
+          ))}
+        </div>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="text-center">
-          <div className={`text-3xl font-bold ${getWaterTone(debouncedWaterLevel)}`}>
-            +{debouncedWaterLevel.toFixed(0)}m
+          <div className={`text-3xl font-bold ${getWaterTone(fraction)}`}>
+            +{formatLength(debouncedWaterLevel, units, 0)}
           </div>
-          <div className="text-sm text-slate-300">{getNarrativeLabel(debouncedWaterLevel)}</div>
+          <div className="text-sm text-slate-300">{getNarrativeLabel(fraction)}</div>
         </div>
 
         <div className="px-2">
           <Slider
             value={sliderValue}
             onValueChange={handleValueChange}
-            max={75}
-            min={25}
+            max={waterLevels.max}
+            min={waterLevels.min}
             step={1}
             className="w-full"
           />
         </div>
 
         <div className="flex justify-between text-xs text-slate-400">
-          <span>25m</span>
-          <span>50m</span>
-          <span>75m</span>
+          <span>{formatLength(waterLevels.min, units, 0)}</span>
+          <span>{formatLength(midLevel, units, 0)}</span>
+          <span>{formatLength(waterLevels.max, units, 0)}</span>
         </div>
 
-        <div className="grid grid-cols-3 gap-2 text-xs">
-          {PRESETS.map((preset) => (
+        <div className="flex gap-2 text-xs">
+          {waterLevels.presets.map((preset) => (
             <button
               key={preset}
-              onClick={() => setWaterLevel(preset)}
-              className={`rounded border px-2 py-1 transition-colors ${
+              onClick={() => {
+                setWaterLevel(preset);
+                setSelectedPreset(String(preset));
+              }}
+              className={`flex-1 rounded border px-2 py-1 transition-colors ${
                 waterLevel === preset
                   ? "border-sky-400 bg-sky-500/20 text-white"
                   : "border-white/10 bg-white/5 text-slate-200 hover:bg-white/10"
               }`}
             >
-              {preset}m
+              {formatLength(preset, units, 0)}
             </button>
           ))}
         </div>
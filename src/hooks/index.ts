@@ -1 +1,4 @@
 export * from "./use-debounce";
+export * from "./use-persisted-settings";
+export * from "./use-scene-url";
+export * from "./use-shared-scenario";
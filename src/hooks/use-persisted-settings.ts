@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+import { useStore } from "@/lib/store";
+import { SETTINGS_STORAGE_KEY } from "@/lib/settings";
+import { SHOTS_STORAGE_KEY, useShotStore } from "@/lib/shots";
+import { TIMELINE_STORAGE_KEY, useTimelineStore } from "@/lib/timeline";
+
+const PERSISTED_STORES = {
+  [SETTINGS_STORAGE_KEY]: useStore.persist,
+  [SHOTS_STORAGE_KEY]: useShotStore.persist,
+  [TIMELINE_STORAGE_KEY]: useTimelineStore.persist,
+};
+
+// Restores the last session, then follows writes from other tabs. The storage
+// event only fires in the tabs that did not make the change, so this cannot
+// loop.
+export const usePersistedSettings = (enabled: boolean = true): void => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    void useStore.persist.rehydrate();
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== window.localStorage || !event.key) return;
+
+      const store = PERSISTED_STORES[event.key as keyof typeof PERSISTED_STORES];
+      if (store) void store.rehydrate();
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [enabled]);
+};
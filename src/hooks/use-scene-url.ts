@@ -0,0 +1,75 @@
+import { useEffect } from "react";
+import { isScenePlaying, selectScene, useStore } from "@/lib/store";
+import { readSceneParams, writeSceneParams } from "@/lib/scene";
+
+export const SCENE_URL_DEBOUNCE_MS = 400;
+
+// Mirrors the scene into the query string. Each settled change gets its own
+// history entry, so back/forward step through scenes.
+export const useSceneUrl = (
+  delay: number = SCENE_URL_DEBOUNCE_MS,
+  enabled: boolean = true
+): void => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    let replaceNext = true;
+
+    const writeUrl = () => {
+      timeout = null;
+      if (isScenePlaying(useStore.getState())) return;
+
+      const replace = replaceNext;
+      replaceNext = false;
+
+      const search = writeSceneParams(window.location.search, selectScene(useStore.getState()));
+      if (`?${search}` === window.location.search) return;
+
+      const url = `${window.location.pathname}?${search}${window.location.hash}`;
+      // Loading a link or going back only normalizes the URL in place; a new
+      // entry there would wipe out the forward history.
+      if (replace) {
+        window.history.replaceState(window.history.state, "", url);
+      } else {
+        window.history.pushState(null, "", url);
+      }
+    };
+
+    const readUrl = () => {
+      useStore.getState().applyScene(readSceneParams(window.location.search));
+    };
+
+    const handlePopState = () => {
+      if (timeout !== null) clearTimeout(timeout);
+      timeout = null;
+      replaceNext = true;
+      readUrl();
+      // Nothing changed, so no write is coming to use up the flag.
+      if (timeout === null) replaceNext = false;
+    };
+
+    readUrl();
+    writeUrl();
+
+    // An export or playback writes once, when it ends, rather than per frame.
+    const unsubscribe = useStore.subscribe((state, previous) => {
+      if (isScenePlaying(state)) return;
+
+      const scene = writeSceneParams("", selectScene(state));
+      if (!isScenePlaying(previous) && scene === writeSceneParams("", selectScene(previous))) {
+        return;
+      }
+
+      if (timeout !== null) clearTimeout(timeout);
+      timeout = setTimeout(writeUrl, delay);
+    });
+    window.addEventListener("popstate", handlePopState);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("popstate", handlePopState);
+      if (timeout !== null) clearTimeout(timeout);
+    };
+  }, [delay, enabled]);
+};
@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { createJSONStorage, type StateStorage } from "zustand/middleware";
+import { useStore } from "@/lib/store";
+import type { ScenarioInput } from "@/lib/scenarios";
+
+const detachedStorage: StateStorage = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {},
+};
+
+// Shows someone else's scenario. The settings store is cut off from
+// localStorage meanwhile, so viewing a link never replaces the visitor's own
+// last scene.
+export const useSharedScenario = (scenario: ScenarioInput | undefined): void => {
+  useEffect(() => {
+    if (!scenario) return;
+
+    const { storage } = useStore.persist.getOptions();
+    useStore.persist.setOptions({ storage: createJSONStorage(() => detachedStorage) });
+    useStore.getState().applyScenario(
+      { regionId: scenario.regionId, waterLevel: scenario.waterLevel, camera: scenario.camera },
+      scenario.barriers
+    );
+
+    return () => {
+      useStore.persist.setOptions({ storage });
+    };
+  }, [scenario]);
+};
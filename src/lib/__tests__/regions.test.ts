@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampWaterLevel,
+  DEFAULT_REGION_ID,
+  getRegion,
+  parseRegionManifest,
+  REGIONS,
+} from "../regions";
+
+const validRegion = {
+  id: "testville",
+  displayName: "Testville",
+  bounds: { west: 0, east: 1, south: 0, north: 1 },
+  camera: { center: [0.5, 0.5], zoom: 12, pitch: 60, bearing: 0 },
+  waterLevels: { min: 0, max: 10, default: 2, presets: [1, 5] },
+  oceanSeeds: [],
+};
+
+describe("regions", () => {
+  it("loads the bundled manifest with San Francisco as the default", () => {
+    expect(REGIONS.length).toBeGreaterThan(1);
+    expect(DEFAULT_REGION_ID).toBe("san-francisco");
+    expect(getRegion("san-francisco").oceanSeeds.map((seed) => seed.id)).toEqual([
+      "pacific",
+      "sf-bay",
+      "golden-gate",
+    ]);
+  });
+
+  it("falls back to the default region for unknown ids", () => {
+    expect(getRegion("atlantis").id).toBe(DEFAULT_REGION_ID);
+  });
+
+  it("clamps water levels to the region range", () => {
+    const region = parseRegionManifest({ regions: [validRegion] })[0];
+
+    expect(region.tagline).toBe("");
+    expect(clampWaterLevel(region, -3)).toBe(0);
+    expect(clampWaterLevel(region, 4)).toBe(4);
+    expect(clampWaterLevel(region, 40)).toBe(10);
+  });
+
+  it("rejects malformed regions", () => {
+    expect(() => parseRegionManifest({ regions: [] })).toThrow("non-empty");
+    expect(() =>
+      parseRegionManifest({
+        regions: [{ ...validRegion, bounds: { west: 1, east: 0, south: 0, north: 1 } }],
+      })
+    ).toThrow('Region "testville" has an invalid bounds');
+    expect(() =>
+      parseRegionManifest({
+        regions: [{ ...validRegion, waterLevels: { ...validRegion.waterLevels, presets: [20] } }],
+      })
+    ).toThrow("waterLevels");
+    expect(() => parseRegionManifest({ regions: [validRegion, validRegion] })).toThrow(
+      "duplicate"
+    );
+  });
+});
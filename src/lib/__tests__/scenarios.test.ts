@@ -0,0 +1,212 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getRegion } from "../regions";
+import { FileScenarioRepository, FileShareRepository } from "../scenario-repository";
+import { parseScenarioInput, parseShareRequest, type ScenarioInput } from "../scenarios";
+
+const region = getRegion("san-francisco");
+
+const input: ScenarioInput = {
+  name: "King tide",
+  notes: "With the Embarcadero wall",
+  regionId: region.id,
+  waterLevel: 30,
+  camera: region.camera,
+  barriers: [
+    {
+      id: "wall",
+      name: "Embarcadero",
+      crestHeight: 6,
+      coordinates: [
+        [-122.39, 37.79],
+        [-122.38, 37.8],
+      ],
+    },
+  ],
+};
+
+describe("parseScenarioInput", () => {
+  it("keeps known fields and clamps the water level to the region", () => {
+    expect(
+      parseScenarioInput({ ...input, name: "  King tide ", waterLevel: 1000, extra: true })
+    ).toEqual({ ...input, waterLevel: region.waterLevels.max });
+  });
+
+  it("rejects scenarios it cannot load", () => {
+    expect(() => parseScenarioInput({ ...input, name: " " })).toThrow("needs a name");
+    expect(() => parseScenarioInput({ ...input, regionId: "atlantis" })).toThrow("unknown region");
+    expect(() => parseScenarioInput({ ...input, camera: { zoom: 3 } })).toThrow("invalid camera");
+    expect(() =>
+      parseScenarioInput({ ...input, barriers: [{ id: "a", name: "", crestHeight: 2 }] })
+    ).toThrow("invalid barrier");
+    expect(() =>
+      parseScenarioInput({ ...input, barriers: [{ ...input.barriers[0], id: "a".repeat(65) }] })
+    ).toThrow("invalid barrier");
+    expect(() =>
+      parseScenarioInput({ ...input, barriers: [{ ...input.barriers[0], name: "a".repeat(121) }] })
+    ).toThrow("Barrier names are limited to 120 characters");
+  });
+});
+
+describe("parseShareRequest", () => {
+  it("accepts links that never expire or expire within a year", () => {
+    expect(parseShareRequest({ scenario: input })).toEqual({
+      scenario: input,
+      expiresInDays: null,
+    });
+    expect(parseShareRequest({ scenario: input, expiresInDays: 7 }).expiresInDays).toBe(7);
+    expect(() => parseShareRequest({ scenario: input, expiresInDays: 0 })).toThrow("at most");
+    expect(() => parseShareRequest({ scenario: input, expiresInDays: 400 })).toThrow("at most");
+  });
+});
+
+describe("FileScenarioRepository", () => {
+  let directory: string;
+  let repository: FileScenarioRepository;
+  let clock: number;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "flood-map-scenarios-"));
+    clock = Date.UTC(2025, 0, 1);
+    repository = new FileScenarioRepository(directory, () => new Date((clock += 1000)), 5);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const save = async (userId: string, scenario: ScenarioInput) => {
+    const created = await repository.create(userId, scenario);
+    if (!created) throw new Error("Expected the scenario to be saved");
+    return created;
+  };
+
+  it("saves, lists, loads, updates and deletes a user's scenarios", async () => {
+    const first = await save("user_a", input);
+    const second = await save("user_a", { ...input, name: "Storm surge" });
+
+    expect(await repository.get("user_a", first.id)).toEqual(first);
+    expect((await repository.list("user_a")).map((scenario) => scenario.name)).toEqual([
+      "Storm surge",
+      "King tide",
+    ]);
+
+    const updated = await repository.update("user_a", first.id, { ...input, waterLevel: 40 });
+    expect(updated).toMatchObject({ id: first.id, waterLevel: 40, createdAt: first.createdAt });
+    expect(updated?.updatedAt).not.toBe(first.updatedAt);
+    expect((await repository.list("user_a"))[0].id).toBe(first.id);
+
+    expect(await repository.delete("user_a", second.id)).toBe(true);
+    expect(await repository.delete("user_a", second.id)).toBe(false);
+    expect(await repository.list("user_a")).toHaveLength(1);
+  });
+
+  it("stops creating scenarios once a user has as many as they may keep", async () => {
+    for (let index = 0; index < 5; index += 1) {
+      await repository.create("user_a", { ...input, name: `Scenario ${index}` });
+    }
+
+    expect(await repository.create("user_a", input)).toBeNull();
+    expect(await repository.list("user_a")).toHaveLength(5);
+    expect(await repository.create("user_b", input)).not.toBeNull();
+  });
+
+  it("keeps each user's scenarios to themselves", async () => {
+    const scenario = await save("user_a", input);
+
+    expect(await repository.get("user_b", scenario.id)).toBeNull();
+    expect(await repository.update("user_b", scenario.id, input)).toBeNull();
+    expect(await repository.delete("user_b", scenario.id)).toBe(false);
+    expect(await repository.list("user_b")).toEqual([]);
+  });
+
+  it("does not lose concurrent saves or leave temporary files", async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, (_, index) =>
+        repository.create("../user_a", { ...input, name: `Scenario ${index}` })
+      )
+    );
+
+    expect(await repository.list("../user_a")).toHaveLength(5);
+    expect(await readdir(directory)).toEqual([expect.stringMatching(/^[0-9a-f]{64}\.json$/)]);
+  });
+});
+
+describe("FileShareRepository", () => {
+  let directory: string;
+  let now: number;
+  let repository: FileShareRepository;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "flood-map-shares-"));
+    now = Date.UTC(2025, 0, 1);
+    repository = new FileShareRepository(directory, () => new Date(now), 2);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const publish = async (ownerId: string, expiresInDays: number | null) => {
+    const share = await repository.create(ownerId, input, expiresInDays);
+    if (!share) throw new Error("Expected the share to be created");
+    return share;
+  };
+
+  it("publishes a snapshot under an unguessable id without its owner", async () => {
+    const share = await publish("user_a", null);
+    const other = await publish("user_a", null);
+
+    expect(share.id).toMatch(/^[A-Za-z0-9_-]{24}$/);
+    expect(other.id).not.toBe(share.id);
+    expect(await repository.get(share.id)).toEqual({
+      id: share.id,
+      scenario: input,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      expiresAt: null,
+    });
+  });
+
+  it("stops serving a share once it expires", async () => {
+    const share = await publish("user_a", 1);
+    expect(share.expiresAt).toBe("2025-01-02T00:00:00.000Z");
+
+    now += 23 * 60 * 60 * 1000;
+    expect(await repository.get(share.id)).not.toBeNull();
+
+    now += 60 * 60 * 1000;
+    expect(await repository.get(share.id)).toBeNull();
+    expect(await readdir(directory)).toEqual(["owners"]);
+  });
+
+  it("limits each owner's live shares and removes expired ones on the next share", async () => {
+    const expiring = await publish("user_a", 1);
+    await repository.create("user_a", input, null);
+    expect(await repository.create("user_a", input, null)).toBeNull();
+    expect(await repository.create("user_b", input, null)).not.toBeNull();
+
+    now += 2 * 24 * 60 * 60 * 1000;
+    expect(await repository.create("user_a", input, null)).not.toBeNull();
+    const files = await readdir(directory);
+    expect(files).not.toContain(`${expiring.id}.json`);
+    expect(files.filter((file) => file.endsWith(".json"))).toHaveLength(3);
+  });
+
+  it("sweeps expired shares of owners who do not share again", async () => {
+    const share = await publish("user_a", 1);
+
+    now += 2 * 60 * 60 * 1000 + 24 * 60 * 60 * 1000;
+    await repository.create("user_b", input, null);
+
+    const files = await readdir(directory);
+    expect(files).not.toContain(`${share.id}.json`);
+    expect(await readdir(path.join(directory, "owners"))).toHaveLength(1);
+  });
+
+  it("does not look up ids that could not have been issued", async () => {
+    expect(await repository.get("../../etc/passwd")).toBeNull();
+    expect(await repository.get("")).toBeNull();
+  });
+});
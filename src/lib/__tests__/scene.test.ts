@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getRegion } from "../regions";
+import { readSceneParams, writeSceneParams, type SceneState } from "../scene";
+import { selectScene, useStore } from "../store";
+
+const scene: SceneState = {
+  regionId: "san-francisco",
+  waterLevel: 12.345,
+  camera: { center: [-122.4194123, 37.7749456], zoom: 13.456, pitch: 72.44, bearing: -20.06 },
+  legendVisible: false,
+};
+
+describe("scene", () => {
+  beforeEach(() => {
+    useStore.setState(useStore.getInitialState(), true);
+  });
+
+  it("round-trips a scene through the query string, keeping other parameters", () => {
+    const search = writeSceneParams("?utm=slack", scene);
+
+    expect(search).toBe(
+      "utm=slack&region=san-francisco&level=12.35&lng=-122.41941&lat=37.77495" +
+        "&zoom=13.46&pitch=72.4&bearing=-20.1&legend=0"
+    );
+    expect(readSceneParams(search)).toEqual({
+      regionId: "san-francisco",
+      waterLevel: 12.35,
+      camera: { center: [-122.41941, 37.77495], zoom: 13.46, pitch: 72.4, bearing: -20.1 },
+      legendVisible: false,
+    });
+  });
+
+  it("leaves out missing and malformed values", () => {
+    expect(readSceneParams("?level=abc&lng=1&lat=95&zoom=&legend=maybe&pitch=30")).toEqual({
+      camera: { pitch: 30 },
+    });
+    expect(readSceneParams("")).toEqual({});
+  });
+
+  it("applies a linked scene over the current one", () => {
+    const miami = getRegion("miami");
+    useStore.getState().setWaterLevel(30);
+    useStore.getState().applyScene({ camera: { zoom: 15 } });
+    expect(selectScene(useStore.getState())).toMatchObject({
+      waterLevel: 30,
+      camera: { zoom: 15, pitch: getRegion("san-francisco").camera.pitch },
+    });
+
+    useStore.getState().applyScene({ regionId: "miami", waterLevel: 999 });
+    expect(selectScene(useStore.getState())).toEqual({
+      regionId: "miami",
+      waterLevel: miami.waterLevels.max,
+      camera: miami.camera,
+      legendVisible: true,
+    });
+  });
+});
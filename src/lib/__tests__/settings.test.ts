@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getRegion } from "../regions";
+import {
+  migrateSettings,
+  parseSettings,
+  SETTINGS_STORAGE_KEY,
+  SETTINGS_VERSION,
+} from "../settings";
+import { selectScene, useStore } from "../store";
+import { formatLength } from "../units";
+
+describe("settings", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useStore.setState(useStore.getInitialState(), true);
+  });
+
+  it("keeps the valid fields of damaged settings", () => {
+    expect(
+      parseSettings({
+        scene: { regionId: "miami", waterLevel: "high", camera: { zoom: 3 }, legendVisible: false },
+        selectedPreset: 4,
+        units: "imperial",
+      })
+    ).toEqual({ scene: { regionId: "miami", legendVisible: false }, units: "imperial" });
+    expect(parseSettings("junk")).toEqual({ scene: {} });
+  });
+
+  it("ignores settings written by a newer version", () => {
+    const stored = { scene: { waterLevel: 30 } };
+    expect(migrateSettings(stored, SETTINGS_VERSION + 1)).toEqual({});
+    expect(migrateSettings(stored, SETTINGS_VERSION - 1)).toBe(stored);
+  });
+
+  it("writes the scene, preset and units, and restores them", async () => {
+    const { setWaterLevel, setSelectedPreset, setUnits, setLegendVisible } = useStore.getState();
+    setWaterLevel(40);
+    setSelectedPreset("40");
+    setUnits("imperial");
+    setLegendVisible(false);
+
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "{}";
+    expect(JSON.parse(stored)).toEqual({
+      state: {
+        scene: selectScene(useStore.getState()),
+        selectedPreset: "40",
+        units: "imperial",
+      },
+      version: SETTINGS_VERSION,
+    });
+
+    useStore.setState(useStore.getInitialState(), true);
+    localStorage.setItem(SETTINGS_STORAGE_KEY, stored);
+    await useStore.persist.rehydrate();
+
+    expect(useStore.getState()).toMatchObject({
+      waterLevel: 40,
+      selectedPreset: "40",
+      units: "imperial",
+      legendVisible: false,
+      mapZoom: getRegion("san-francisco").camera.zoom,
+    });
+  });
+
+  it("saves nothing while an export or playback runs, then saves once it ends", () => {
+    const { setIsPlayingTimeline, setIsExporting, setWaterLevel, setMapView } = useStore.getState();
+    const stored = () =>
+      JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? "{}").state?.scene?.waterLevel;
+    setWaterLevel(30);
+
+    setIsPlayingTimeline(true);
+    setWaterLevel(40);
+    setMapView({ center: [-122.3, 37.7], zoom: 11, pitch: 0, bearing: 90 });
+    expect(stored()).toBe(30);
+    setIsPlayingTimeline(false);
+    expect(stored()).toBe(40);
+
+    setIsExporting(true);
+    setWaterLevel(60);
+    expect(stored()).toBe(40);
+    setIsExporting(false);
+    expect(stored()).toBe(60);
+  });
+
+  it("formats metres in the chosen units", () => {
+    expect(formatLength(12.34, "metric")).toBe("12.3m");
+    expect(formatLength(10, "imperial", 0)).toBe("33ft");
+  });
+});
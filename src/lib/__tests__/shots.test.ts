@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { moveItem, parseShots, SHOTS_STORAGE_KEY, useShotStore } from "../shots";
+
+const shot = {
+  regionId: "san-francisco",
+  camera: { center: [-122.4, 37.8] as [number, number], zoom: 13, pitch: 70, bearing: -30 },
+  waterLevel: 6,
+};
+
+describe("shots", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useShotStore.setState({ shots: [] });
+  });
+
+  it("moves items within bounds only", () => {
+    expect(moveItem(["a", "b", "c"], 0, 2)).toEqual(["b", "c", "a"]);
+    expect(moveItem(["a", "b", "c"], 2, 1)).toEqual(["a", "c", "b"]);
+    expect(moveItem(["a", "b"], 1, 2)).toEqual(["a", "b"]);
+  });
+
+  it("drops stored entries that are not complete shots", () => {
+    const valid = { ...shot, id: "1", name: "Wide" };
+    expect(
+      parseShots([valid, { ...valid, camera: { ...valid.camera, zoom: null } }, "junk"])
+    ).toEqual([valid]);
+    expect(parseShots(null)).toEqual([]);
+  });
+
+  it("saves, renames, reorders and removes shots in localStorage", async () => {
+    const { addShot, renameShot, moveShot, removeShot } = useShotStore.getState();
+    addShot(shot);
+    addShot({ ...shot, waterLevel: 12 });
+
+    const [first, second] = useShotStore.getState().shots;
+    expect(first.name).toBe("Shot 1");
+    renameShot(second.id, "Downtown");
+    moveShot(second.id, -1);
+    expect(useShotStore.getState().shots.map((item) => item.name)).toEqual([
+      "Downtown",
+      "Shot 1",
+    ]);
+
+    removeShot(first.id);
+    const stored = localStorage.getItem(SHOTS_STORAGE_KEY) ?? "{}";
+    expect(JSON.parse(stored)).toEqual({
+      state: { shots: [{ ...second, name: "Downtown" }] },
+      version: 1,
+    });
+
+    useShotStore.setState({ shots: [] });
+    localStorage.setItem(SHOTS_STORAGE_KEY, stored);
+    await useShotStore.persist.rehydrate();
+    expect(useShotStore.getState().shots).toEqual([{ ...second, name: "Downtown" }]);
+  });
+});
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getRegionKeyframes, parseKeyframes, useTimelineStore } from "../timeline";
+
+const camera = { center: [-122.4, 37.8] as [number, number], zoom: 13, pitch: 70, bearing: 0 };
+
+describe("timeline", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useTimelineStore.setState({ keyframes: [] });
+  });
+
+  it("keeps keyframes sorted as they are added and retimed", () => {
+    const { addKeyframe, updateKeyframe } = useTimelineStore.getState();
+    addKeyframe({ regionId: "san-francisco", time: 4, camera, waterLevel: 8, easing: "linear" });
+    addKeyframe({
+      regionId: "san-francisco",
+      time: 0,
+      camera,
+      waterLevel: 0,
+      easing: "ease-in-out",
+    });
+    expect(useTimelineStore.getState().keyframes.map((keyframe) => keyframe.time)).toEqual([
+      0, 4,
+    ]);
+
+    const [first] = useTimelineStore.getState().keyframes;
+    updateKeyframe(first.id, { time: 6 });
+    expect(useTimelineStore.getState().keyframes.map((keyframe) => keyframe.waterLevel)).toEqual([
+      8, 0,
+    ]);
+  });
+
+  it("drops stored keyframes with bad easing, time or camera", () => {
+    const valid = {
+      id: "a",
+      regionId: "san-francisco",
+      time: 1,
+      camera,
+      waterLevel: 2,
+      easing: "ease-out",
+    };
+    expect(
+      parseKeyframes([
+        { ...valid, id: "b", time: 3 },
+        valid,
+        { ...valid, easing: "bounce" },
+        { ...valid, time: -1 },
+        { ...valid, camera: { center: [0] } },
+        { ...valid, regionId: "atlantis" },
+      ]).map((keyframe) => keyframe.id)
+    ).toEqual(["a", "b"]);
+  });
+
+  it("plays only the keyframes recorded in the current region", () => {
+    const { addKeyframe } = useTimelineStore.getState();
+    addKeyframe({ regionId: "san-francisco", time: 0, camera, waterLevel: 0, easing: "linear" });
+    addKeyframe({ regionId: "miami", time: 2, camera, waterLevel: 1, easing: "linear" });
+
+    const { keyframes } = useTimelineStore.getState();
+    expect(getRegionKeyframes(keyframes, "miami").map((keyframe) => keyframe.time)).toEqual([2]);
+    expect(getRegionKeyframes(keyframes, "new-york")).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { crc32, encodeZip } from "../zip";
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+describe("zip", () => {
+  it("computes standard CRC-32 checksums", () => {
+    expect(crc32(new TextEncoder().encode("hello"))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it("stores entries with a central directory that points back at them", () => {
+    const entries = [
+      { name: "frame-0001.png", data: new Uint8Array([1, 2, 3]) },
+      { name: "sequence.json", data: new TextEncoder().encode("{}") },
+    ];
+    const bytes = concat(encodeZip(entries, new Date(2025, 0, 2, 3, 4, 6)));
+    const view = new DataView(bytes.buffer);
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    let central = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+    for (const entry of entries) {
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      expect(view.getUint32(central + 16, true)).toBe(crc32(entry.data));
+      expect(view.getUint16(central + 14, true)).toBe((45 << 9) | (1 << 5) | 2);
+
+      const nameLength = view.getUint16(central + 28, true);
+      expect(decoder.decode(bytes.subarray(central + 46, central + 46 + nameLength))).toBe(
+        entry.name
+      );
+
+      const local = view.getUint32(central + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      const dataStart = local + 30 + view.getUint16(local + 26, true);
+      expect(Array.from(bytes.subarray(dataStart, dataStart + entry.data.length))).toEqual(
+        Array.from(entry.data)
+      );
+
+      central += 46 + nameLength;
+    }
+  });
+});
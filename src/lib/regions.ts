@@ -0,0 +1,147 @@
+import type { BoundsLike } from "@/components/Map/FloodModel";
+import type { OceanSeed } from "@/components/Map/OceanSeeds";
+import regionManifest from "./regions.json";
+
+export interface RegionCamera {
+  center: [number, number];
+  zoom: number;
+  pitch: number;
+  bearing: number;
+}
+
+export interface RegionWaterLevels {
+  min: number;
+  max: number;
+  default: number;
+  presets: number[];
+}
+
+export interface RegionDefinition {
+  id: string;
+  displayName: string;
+  tagline: string;
+  bounds: BoundsLike;
+  camera: RegionCamera;
+  waterLevels: RegionWaterLevels;
+  oceanSeeds: OceanSeed[];
+}
+
+type RegionRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RegionRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isLngLat(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+}
+
+function isBounds(value: unknown): value is BoundsLike {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.west) &&
+    isFiniteNumber(value.east) &&
+    isFiniteNumber(value.south) &&
+    isFiniteNumber(value.north) &&
+    value.west < value.east &&
+    value.south < value.north
+  );
+}
+
+export function isRegionCamera(value: unknown): value is RegionCamera {
+  return (
+    isRecord(value) &&
+    isLngLat(value.center) &&
+    isFiniteNumber(value.zoom) &&
+    isFiniteNumber(value.pitch) &&
+    isFiniteNumber(value.bearing)
+  );
+}
+
+function isWaterLevels(value: unknown): value is RegionWaterLevels {
+  if (
+    !isRecord(value) ||
+    !isFiniteNumber(value.min) ||
+    !isFiniteNumber(value.max) ||
+    !isFiniteNumber(value.default) ||
+    !Array.isArray(value.presets)
+  ) {
+    return false;
+  }
+
+  const { min, max } = value;
+  const inRange = (level: unknown) => isFiniteNumber(level) && level >= min && level <= max;
+  return min < max && inRange(value.default) && value.presets.every(inRange);
+}
+
+function isOceanSeed(value: unknown): value is OceanSeed {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    isRecord(value.geometry) &&
+    (value.geometry.type === "Polygon" || value.geometry.type === "MultiPolygon") &&
+    Array.isArray(value.geometry.coordinates)
+  );
+}
+
+function parseRegion(value: unknown, index: number): RegionDefinition {
+  if (!isRecord(value) || typeof value.id !== "string" || value.id.length === 0) {
+    throw new Error(`Region #${index} needs a non-empty string id`);
+  }
+
+  const fail = (field: string) => new Error(`Region "${value.id}" has an invalid ${field}`);
+
+  if (typeof value.displayName !== "string") throw fail("displayName");
+  if (!isBounds(value.bounds)) throw fail("bounds");
+  if (!isRegionCamera(value.camera)) throw fail("camera");
+  if (!isWaterLevels(value.waterLevels)) throw fail("waterLevels");
+  if (!Array.isArray(value.oceanSeeds) || !value.oceanSeeds.every(isOceanSeed)) {
+    throw fail("oceanSeeds");
+  }
+
+  return {
+    id: value.id,
+    displayName: value.displayName,
+    tagline: typeof value.tagline === "string" ? value.tagline : "",
+    bounds: value.bounds,
+    camera: value.camera,
+    waterLevels: value.waterLevels,
+    oceanSeeds: value.oceanSeeds,
+  };
+}
+
+export function parseRegionManifest(manifest: unknown): RegionDefinition[] {
+  if (!isRecord(manifest) || !Array.isArray(manifest.regions) || manifest.regions.length === 0) {
+    throw new Error("Region manifest needs a non-empty regions array");
+  }
+
+  const regions = manifest.regions.map(parseRegion);
+  const ids = new Set(regions.map((region) => region.id));
+  if (ids.size !== regions.length) {
+    throw new Error("Region manifest contains duplicate region ids");
+  }
+
+  return regions;
+}
+
+// Cities live in regions.json so adding one is a data change, not a code change.
+export const REGIONS: RegionDefinition[] = parseRegionManifest(regionManifest);
+
+export const DEFAULT_REGION_ID = REGIONS[0].id;
+
+export function findRegion(id: string): RegionDefinition | undefined {
+  return REGIONS.find((region) => region.id === id);
+}
+
+export function getRegion(id: string): RegionDefinition {
+  return findRegion(id) ?? REGIONS[0];
+}
+
+export function clampWaterLevel(region: RegionDefinition, level: number): number {
+  return Math.max(region.waterLevels.min, Math.min(region.waterLevels.max, level));
+}
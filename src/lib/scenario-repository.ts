@@ -0,0 +1,341 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  isShareExpired,
+  MAX_SCENARIOS_PER_USER,
+  MAX_SHARES_PER_USER,
+  summarizeScenario,
+  type Scenario,
+  type ScenarioInput,
+  type ScenarioSummary,
+  type SharedScenario,
+} from "@/lib/scenarios";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 18 random bytes is 144 bits, written as 24 URL-safe characters.
+const SHARE_ID_BYTES = 18;
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{24}$/;
+const SHARE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Every method is scoped to a user, so one account can never read or change
+// another's scenarios, even with a guessed id.
+export interface ScenarioRepository {
+  list(userId: string): Promise<ScenarioSummary[]>;
+  get(userId: string, id: string): Promise<Scenario | null>;
+  // Null once the user has as many scenarios as they may keep.
+  create(userId: string, input: ScenarioInput): Promise<Scenario | null>;
+  update(userId: string, id: string, input: ScenarioInput): Promise<Scenario | null>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+// Shares are read by id alone, without a user, so the id is the only secret.
+export interface ShareRepository {
+  // Null once the owner has as many live shares as they may keep.
+  create(
+    ownerId: string,
+    scenario: ScenarioInput,
+    expiresInDays: number | null
+  ): Promise<SharedScenario | null>;
+  // Null for unknown and expired ids alike.
+  get(id: string): Promise<SharedScenario | null>;
+}
+
+interface ScenarioFile {
+  version: 1;
+  scenarios: Scenario[];
+}
+
+interface ShareFile extends SharedScenario {
+  ownerId: string;
+}
+
+// Lists an owner's shares, so they can be counted and their expired ones
+// removed without reading every share.
+interface ShareIndexFile {
+  version: 1;
+  shares: Array<Pick<SharedScenario, "id" | "expiresAt">>;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+// User ids are hashed so they can never reach a path as "../" or similar.
+function getUserFileName(userId: string): string {
+  return `${createHash("sha256").update(userId).digest("hex")}.json`;
+}
+
+// Runs tasks for the same key one after another, so two requests at once
+// cannot both read the old file and drop each other's change.
+class KeyedQueue {
+  private queues = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const next = previous.then(task);
+
+    const settled = next.catch(() => undefined);
+    this.queues.set(key, settled);
+    void settled.then(() => {
+      if (this.queues.get(key) === settled) this.queues.delete(key);
+    });
+
+    return next;
+  }
+}
+
+// Written beside the target and renamed over it, so readers never see half a file.
+async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  const temporaryPath = `${filePath}.${randomUUID()}.tmp`;
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(temporaryPath, JSON.stringify(value), "utf8");
+  await rename(temporaryPath, filePath);
+}
+
+// Stores one JSON file per user. Writes for a user are queued.
+export class FileScenarioRepository implements ScenarioRepository {
+  private queue = new KeyedQueue();
+
+  constructor(
+    private readonly directory: string,
+    private readonly now: () => Date = () => new Date(),
+    private readonly maxScenarios: number = MAX_SCENARIOS_PER_USER
+  ) {}
+
+  async list(userId: string): Promise<ScenarioSummary[]> {
+    const { scenarios } = await this.read(userId);
+    return scenarios
+      .map(summarizeScenario)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(userId: string, id: string): Promise<Scenario | null> {
+    const { scenarios } = await this.read(userId);
+    return scenarios.find((scenario) => scenario.id === id) ?? null;
+  }
+
+  create(userId: string, input: ScenarioInput): Promise<Scenario | null> {
+    return this.change(userId, (file) => {
+      if (file.scenarios.length >= this.maxScenarios) return null;
+
+      const timestamp = this.now().toISOString();
+      const scenario: Scenario = {
+        ...input,
+        id: randomUUID(),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+
+      file.scenarios.push(scenario);
+      return scenario;
+    });
+  }
+
+  update(userId: string, id: string, input: ScenarioInput): Promise<Scenario | null> {
+    return this.change(userId, (file) => {
+      const index = file.scenarios.findIndex((scenario) => scenario.id === id);
+      if (index === -1) return null;
+
+      const scenario: Scenario = {
+        ...input,
+        id,
+        createdAt: file.scenarios[index].createdAt,
+        updatedAt: this.now().toISOString(),
+      };
+
+      file.scenarios[index] = scenario;
+      return scenario;
+    });
+  }
+
+  async delete(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.change(userId, (file) => {
+      const remaining = file.scenarios.filter((scenario) => scenario.id !== id);
+      if (remaining.length === file.scenarios.length) return null;
+
+      file.scenarios = remaining;
+      return true;
+    });
+    return deleted !== null;
+  }
+
+  private getPath(userId: string): string {
+    return path.join(this.directory, getUserFileName(userId));
+  }
+
+  private async read(userId: string): Promise<ScenarioFile> {
+    try {
+      const file = JSON.parse(await readFile(this.getPath(userId), "utf8")) as ScenarioFile;
+      if (file.version !== 1 || !Array.isArray(file.scenarios)) {
+        throw new Error("Scenario file has an unsupported format");
+      }
+      return file;
+    } catch (error) {
+      if (isMissingFile(error)) return { version: 1, scenarios: [] };
+      throw error;
+    }
+  }
+
+  // `apply` edits the file in place and returns null when there was nothing to
+  // change, which skips the write.
+  private change<T>(
+    userId: string,
+    apply: (file: ScenarioFile) => T | null
+  ): Promise<T | null> {
+    const filePath = this.getPath(userId);
+
+    return this.queue.run(filePath, async () => {
+      const file = await this.read(userId);
+      const result = apply(file);
+      if (result === null) return null;
+
+      await writeJsonFile(filePath, file);
+      return result;
+    });
+  }
+}
+
+// Stores one JSON file per share, plus an index of each owner's shares under
+// owners/. Expired shares are removed when read, when their owner shares
+// again, and by a sweep of every index that new shares start at most hourly.
+export class FileShareRepository implements ShareRepository {
+  private queue = new KeyedQueue();
+  private lastSweep = Number.NEGATIVE_INFINITY;
+
+  constructor(
+    private readonly directory: string,
+    private readonly now: () => Date = () => new Date(),
+    private readonly maxShares: number = MAX_SHARES_PER_USER
+  ) {}
+
+  async create(
+    ownerId: string,
+    scenario: ScenarioInput,
+    expiresInDays: number | null
+  ): Promise<SharedScenario | null> {
+    await this.sweepExpired();
+
+    const indexPath = path.join(this.getOwnersDirectory(), getUserFileName(ownerId));
+    return this.queue.run(indexPath, async () => {
+      const now = this.now();
+      const index = await this.pruneIndex(indexPath, now);
+      if (index.shares.length >= this.maxShares) return null;
+
+      const share: ShareFile = {
+        id: randomBytes(SHARE_ID_BYTES).toString("base64url"),
+        ownerId,
+        scenario,
+        createdAt: now.toISOString(),
+        expiresAt:
+          expiresInDays === null
+            ? null
+            : new Date(now.getTime() + expiresInDays * DAY_MS).toISOString(),
+      };
+
+      await writeJsonFile(this.getPath(share.id), share);
+      index.shares.push({ id: share.id, expiresAt: share.expiresAt });
+      await writeJsonFile(indexPath, index);
+      return toSharedScenario(share);
+    });
+  }
+
+  async get(id: string): Promise<SharedScenario | null> {
+    // Checked before the id goes anywhere near a path.
+    if (!SHARE_ID_PATTERN.test(id)) return null;
+
+    let share: ShareFile;
+    try {
+      share = JSON.parse(await readFile(this.getPath(id), "utf8")) as ShareFile;
+    } catch (error) {
+      if (isMissingFile(error)) return null;
+      throw error;
+    }
+
+    if (isShareExpired(share, this.now())) {
+      await rm(this.getPath(id), { force: true });
+      return null;
+    }
+    return toSharedScenario(share);
+  }
+
+  // Deletes the owner's expired shares and returns the index of the rest.
+  // Only called from inside the owner's queue.
+  private async pruneIndex(indexPath: string, now: Date): Promise<ShareIndexFile> {
+    let index: ShareIndexFile;
+    try {
+      index = JSON.parse(await readFile(indexPath, "utf8")) as ShareIndexFile;
+    } catch (error) {
+      if (isMissingFile(error)) return { version: 1, shares: [] };
+      throw error;
+    }
+    if (index.version !== 1 || !Array.isArray(index.shares)) {
+      throw new Error("Share index has an unsupported format");
+    }
+
+    const live = index.shares.filter((share) => !isShareExpired(share, now));
+    if (live.length === index.shares.length) return index;
+
+    await Promise.all(
+      index.shares
+        .filter((share) => isShareExpired(share, now))
+        .map(({ id }) => rm(this.getPath(id), { force: true }))
+    );
+    const pruned: ShareIndexFile = { version: 1, shares: live };
+    if (live.length > 0) {
+      await writeJsonFile(indexPath, pruned);
+    } else {
+      await rm(indexPath, { force: true });
+    }
+    return pruned;
+  }
+
+  // Catches the shares of owners who never share again and links nobody opens.
+  private async sweepExpired(): Promise<void> {
+    const now = this.now();
+    if (now.getTime() - this.lastSweep < SHARE_SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now.getTime();
+
+    let names: string[];
+    try {
+      names = await readdir(this.getOwnersDirectory());
+    } catch (error) {
+      if (isMissingFile(error)) return;
+      throw error;
+    }
+
+    for (const name of names.filter((entry) => entry.endsWith(".json"))) {
+      const indexPath = path.join(this.getOwnersDirectory(), name);
+      await this.queue.run(indexPath, () => this.pruneIndex(indexPath, now));
+    }
+  }
+
+  private getOwnersDirectory(): string {
+    return path.join(this.directory, "owners");
+  }
+
+  private getPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+}
+
+function toSharedScenario({ id, scenario, createdAt, expiresAt }: ShareFile): SharedScenario {
+  return { id, scenario, createdAt, expiresAt };
+}
+
+let repository: ScenarioRepository | null = null;
+let shareRepository: ShareRepository | null = null;
+
+function getDataDirectory(): string {
+  return process.env.SCENARIO_DATA_DIR || path.join(process.cwd(), ".data", "scenarios");
+}
+
+export function getScenarioRepository(): ScenarioRepository {
+  repository ??= new FileScenarioRepository(getDataDirectory());
+  return repository;
+}
+
+export function getShareRepository(): ShareRepository {
+  shareRepository ??= new FileShareRepository(path.join(getDataDirectory(), "shares"));
+  return shareRepository;
+}
@@ -0,0 +1,207 @@
+import type { FloodBarrier } from "@/components/Map/FloodBarriers";
+import {
+  clampWaterLevel,
+  findRegion,
+  isRegionCamera,
+  type RegionCamera,
+} from "@/lib/regions";
+
+export const MAX_SCENARIO_NAME_LENGTH = 120;
+export const MAX_SCENARIO_NOTES_LENGTH = 4000;
+export const MAX_SCENARIO_BARRIERS = 100;
+export const MAX_BARRIER_NAME_LENGTH = 120;
+const MAX_BARRIER_ID_LENGTH = 64;
+const MAX_BARRIER_POINTS = 500;
+// Each user's scenarios live in one file that is rewritten on every change.
+export const MAX_SCENARIOS_PER_USER = 200;
+export const MAX_SHARES_PER_USER = 200;
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+export const SHARE_EXPIRY_OPTIONS: Array<number | null> = [null, 1, 7, 30];
+
+export interface ScenarioInput {
+  name: string;
+  notes: string;
+  regionId: string;
+  waterLevel: number;
+  camera: RegionCamera;
+  barriers: FloodBarrier[];
+}
+
+export interface Scenario extends ScenarioInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScenarioSummary = Pick<
+  Scenario,
+  "id" | "name" | "regionId" | "waterLevel" | "updatedAt"
+>;
+
+// A published copy of a scenario. It does not follow later edits, and the
+// owner is kept out of it because anyone with the link can read it.
+export interface SharedScenario {
+  id: string;
+  scenario: ScenarioInput;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+export interface ShareRequest {
+  scenario: ScenarioInput;
+  expiresInDays: number | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isBarrier(value: unknown): value is FloodBarrier {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    value.id.length > 0 &&
+    value.id.length <= MAX_BARRIER_ID_LENGTH &&
+    typeof value.name === "string" &&
+    isFiniteNumber(value.crestHeight) &&
+    Array.isArray(value.coordinates) &&
+    value.coordinates.length >= 2 &&
+    value.coordinates.length <= MAX_BARRIER_POINTS &&
+    value.coordinates.every(
+      (point) => Array.isArray(point) && point.length === 2 && point.every(isFiniteNumber)
+    )
+  );
+}
+
+// Request bodies come from the network, so only known fields are copied and the
+// water level is clamped to the region the same way the slider would.
+export function parseScenarioInput(value: unknown): ScenarioInput {
+  if (!isRecord(value)) throw new Error("Scenario must be an object");
+
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (!name) throw new Error("Scenario needs a name");
+  if (name.length > MAX_SCENARIO_NAME_LENGTH) {
+    throw new Error(`Scenario names are limited to ${MAX_SCENARIO_NAME_LENGTH} characters`);
+  }
+
+  const notes = value.notes ?? "";
+  if (typeof notes !== "string") throw new Error("Scenario notes must be text");
+  if (notes.length > MAX_SCENARIO_NOTES_LENGTH) {
+    throw new Error(`Scenario notes are limited to ${MAX_SCENARIO_NOTES_LENGTH} characters`);
+  }
+
+  const region = typeof value.regionId === "string" ? findRegion(value.regionId) : undefined;
+  if (!region) throw new Error("Scenario has an unknown region");
+  if (!isFiniteNumber(value.waterLevel)) throw new Error("Scenario has an invalid water level");
+  if (!isRegionCamera(value.camera)) throw new Error("Scenario has an invalid camera");
+
+  const barriers = value.barriers ?? [];
+  if (!Array.isArray(barriers) || !barriers.every(isBarrier)) {
+    throw new Error("Scenario has an invalid barrier");
+  }
+  if (barriers.length > MAX_SCENARIO_BARRIERS) {
+    throw new Error(`Scenarios are limited to ${MAX_SCENARIO_BARRIERS} barriers`);
+  }
+  if (barriers.some((barrier) => barrier.name.length > MAX_BARRIER_NAME_LENGTH)) {
+    throw new Error(`Barrier names are limited to ${MAX_BARRIER_NAME_LENGTH} characters`);
+  }
+
+  const { center, zoom, pitch, bearing } = value.camera;
+  return {
+    name,
+    notes,
+    regionId: region.id,
+    waterLevel: clampWaterLevel(region, value.waterLevel),
+    camera: { center, zoom, pitch, bearing },
+    barriers: barriers.map(({ id, name, crestHeight, coordinates }) => ({
+      id,
+      name,
+      crestHeight,
+      coordinates,
+    })),
+  };
+}
+
+export function parseShareRequest(value: unknown): ShareRequest {
+  if (!isRecord(value)) throw new Error("Share request must be an object");
+
+  const expiresInDays = value.expiresInDays ?? null;
+  const validExpiry =
+    expiresInDays === null ||
+    (isFiniteNumber(expiresInDays) && expiresInDays > 0 && expiresInDays <= MAX_SHARE_EXPIRY_DAYS);
+  if (!validExpiry) {
+    throw new Error(`Share links can last at most ${MAX_SHARE_EXPIRY_DAYS} days`);
+  }
+
+  return { scenario: parseScenarioInput(value.scenario), expiresInDays };
+}
+
+export function isShareExpired(
+  share: Pick<SharedScenario, "expiresAt">,
+  now: Date = new Date()
+): boolean {
+  return share.expiresAt !== null && Date.parse(share.expiresAt) <= now.getTime();
+}
+
+export function getSharePath(id: string): string {
+  return `/share/${encodeURIComponent(id)}`;
+}
+
+export function summarizeScenario(scenario: Scenario): ScenarioSummary {
+  const { id, name, regionId, waterLevel, updatedAt } = scenario;
+  return { id, name, regionId, waterLevel, updatedAt };
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+  });
+  const body = response.status === 204 ? null : await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const message = isRecord(body) && typeof body.error === "string" ? body.error : null;
+    throw new Error(message ?? `Scenario request failed (${response.status})`);
+  }
+  return body as T;
+}
+
+const requestScenarioApi = <T>(path: string, init?: RequestInit) =>
+  requestJson<T>(`/api/scenarios${path}`, init);
+
+export async function listScenarios(): Promise<ScenarioSummary[]> {
+  const { scenarios } = await requestScenarioApi<{ scenarios: ScenarioSummary[] }>("");
+  return scenarios;
+}
+
+export async function loadScenario(id: string): Promise<Scenario> {
+  const { scenario } = await requestScenarioApi<{ scenario: Scenario }>(
+    `/${encodeURIComponent(id)}`
+  );
+  return scenario;
+}
+
+// Creates a scenario, or overwrites the one with the given id.
+export async function saveScenario(input: ScenarioInput, id?: string): Promise<Scenario> {
+  const { scenario } = await requestScenarioApi<{ scenario: Scenario }>(
+    id ? `/${encodeURIComponent(id)}` : "",
+    { method: id ? "PUT" : "POST", body: JSON.stringify(input) }
+  );
+  return scenario;
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  await requestScenarioApi<null>(`/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
+export async function shareScenario(request: ShareRequest): Promise<SharedScenario> {
+  const { share } = await requestJson<{ share: SharedScenario }>("/api/shares", {
+    method: "POST",
+    body: JSON.stringify(request),
+  });
+  return share;
+}
@@ -0,0 +1,75 @@
+import type { RegionCamera } from "@/lib/regions";
+
+export interface SceneState {
+  regionId: string;
+  waterLevel: number;
+  camera: RegionCamera;
+  legendVisible: boolean;
+}
+
+export type SceneUpdate = Partial<Omit<SceneState, "camera">> & {
+  camera?: Partial<RegionCamera>;
+};
+
+// Rounded so a link is short and a scene that has settled always writes the
+// same string: 5 decimals of a degree is about a metre.
+function formatNumber(value: number, digits: number): string {
+  return String(Number(value.toFixed(digits)));
+}
+
+function parseNumber(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (raw === null || raw.trim() === "") return undefined;
+
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// Keeps any query parameters that are not part of the scene.
+export function writeSceneParams(search: string, scene: SceneState): string {
+  const params = new URLSearchParams(search);
+  const { camera } = scene;
+
+  params.set("region", scene.regionId);
+  params.set("level", formatNumber(scene.waterLevel, 2));
+  params.set("lng", formatNumber(camera.center[0], 5));
+  params.set("lat", formatNumber(camera.center[1], 5));
+  params.set("zoom", formatNumber(camera.zoom, 2));
+  params.set("pitch", formatNumber(camera.pitch, 1));
+  params.set("bearing", formatNumber(camera.bearing, 1));
+  params.set("legend", scene.legendVisible ? "1" : "0");
+
+  return params.toString();
+}
+
+// Missing or malformed values are left out so the current scene fills them in.
+export function readSceneParams(search: string): SceneUpdate {
+  const params = new URLSearchParams(search);
+  const scene: SceneUpdate = {};
+  const camera: Partial<RegionCamera> = {};
+
+  const regionId = params.get("region");
+  if (regionId) scene.regionId = regionId;
+
+  const waterLevel = parseNumber(params, "level");
+  if (waterLevel !== undefined) scene.waterLevel = waterLevel;
+
+  const lng = parseNumber(params, "lng");
+  const lat = parseNumber(params, "lat");
+  if (lng !== undefined && lat !== undefined && Math.abs(lat) <= 90) {
+    camera.center = [lng, lat];
+  }
+
+  const zoom = parseNumber(params, "zoom");
+  if (zoom !== undefined) camera.zoom = zoom;
+  const pitch = parseNumber(params, "pitch");
+  if (pitch !== undefined) camera.pitch = pitch;
+  const bearing = parseNumber(params, "bearing");
+  if (bearing !== undefined) camera.bearing = bearing;
+  if (Object.keys(camera).length > 0) scene.camera = camera;
+
+  const legend = params.get("legend");
+  if (legend === "0" || legend === "1") scene.legendVisible = legend === "1";
+
+  return scene;
+}
@@ -0,0 +1,56 @@
+import { isRegionCamera } from "@/lib/regions";
+import type { SceneState, SceneUpdate } from "@/lib/scene";
+import { isUnitSystem, type UnitSystem } from "@/lib/units";
+
+export const SETTINGS_STORAGE_KEY = "flood-map-settings";
+export const SETTINGS_VERSION = 1;
+
+export interface PersistedSettings {
+  scene: SceneState;
+  selectedPreset: string | null;
+  units: UnitSystem;
+}
+
+export interface SettingsUpdate {
+  scene: SceneUpdate;
+  selectedPreset?: string | null;
+  units?: UnitSystem;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Each field is checked on its own, so one bad value does not throw away the
+// rest of someone's settings.
+export function parseSettings(value: unknown): SettingsUpdate {
+  const settings: SettingsUpdate = { scene: {} };
+  if (!isRecord(value)) return settings;
+
+  const scene = isRecord(value.scene) ? value.scene : {};
+  if (typeof scene.regionId === "string") settings.scene.regionId = scene.regionId;
+  if (typeof scene.waterLevel === "number" && Number.isFinite(scene.waterLevel)) {
+    settings.scene.waterLevel = scene.waterLevel;
+  }
+  if (isRegionCamera(scene.camera)) settings.scene.camera = scene.camera;
+  if (typeof scene.legendVisible === "boolean") {
+    settings.scene.legendVisible = scene.legendVisible;
+  }
+
+  if (typeof value.selectedPreset === "string" || value.selectedPreset === null) {
+    settings.selectedPreset = value.selectedPreset;
+  }
+  if (isUnitSystem(value.units)) settings.units = value.units;
+
+  return settings;
+}
+
+// Runs when the stored version differs from SETTINGS_VERSION. Add a step here
+// whenever the persisted shape changes; anything parseSettings cannot read is
+// dropped afterwards.
+export function migrateSettings(persisted: unknown, version: number): unknown {
+  // Written by a newer build, whose fields may not mean what this one expects.
+  if (version > SETTINGS_VERSION) return {};
+
+  return persisted;
+}
@@ -0,0 +1,94 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import { isRegionCamera, type RegionCamera } from "@/lib/regions";
+
+export const SHOTS_STORAGE_KEY = "flood-map-shots";
+
+export interface CameraShot {
+  id: string;
+  name: string;
+  regionId: string;
+  camera: RegionCamera;
+  waterLevel: number;
+}
+
+interface ShotState {
+  shots: CameraShot[];
+
+  addShot: (shot: Omit<CameraShot, "id" | "name">) => void;
+  renameShot: (id: string, name: string) => void;
+  moveShot: (id: string, offset: number) => void;
+  removeShot: (id: string) => void;
+}
+
+function isShot(value: unknown): value is CameraShot {
+  if (!value || typeof value !== "object") return false;
+
+  const shot = value as Record<string, unknown>;
+  return (
+    typeof shot.id === "string" &&
+    typeof shot.name === "string" &&
+    typeof shot.regionId === "string" &&
+    typeof shot.waterLevel === "number" &&
+    Number.isFinite(shot.waterLevel) &&
+    isRegionCamera(shot.camera)
+  );
+}
+
+// Storage is user-editable, so anything that is not a complete shot is dropped
+// rather than handed to flyTo.
+export function parseShots(value: unknown): CameraShot[] {
+  return Array.isArray(value) ? value.filter(isShot) : [];
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from < 0 || from >= items.length || to < 0 || to >= items.length || from === to) {
+    return items;
+  }
+
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+export const useShotStore = create<ShotState>()(
+  persist(
+    (set) => ({
+      shots: [],
+
+      addShot: (shot) =>
+        set((state) => ({
+          shots: [
+            ...state.shots,
+            { ...shot, id: crypto.randomUUID(), name: `Shot ${state.shots.length + 1}` },
+          ],
+        })),
+      renameShot: (id, name) =>
+        set((state) => ({
+          shots: state.shots.map((shot) => (shot.id === id ? { ...shot, name } : shot)),
+        })),
+      moveShot: (id, offset) =>
+        set((state) => {
+          const index = state.shots.findIndex((shot) => shot.id === id);
+          return { shots: moveItem(state.shots, index, index + offset) };
+        }),
+      removeShot: (id) =>
+        set((state) => ({
+          shots: state.shots.filter((shot) => shot.id !== id),
+        })),
+    }),
+    {
+      name: SHOTS_STORAGE_KEY,
+      version: 1,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ shots: state.shots }),
+      // Rehydrated from an effect so the server render and first client render match.
+      skipHydration: true,
+      merge: (persisted, current) => ({
+        ...current,
+        shots: parseShots((persisted as { shots?: unknown } | undefined)?.shots),
+      }),
+    }
+  )
+);
@@ -1,38 +1,214 @@
 import { create } from "zustand";
+import { createJSONStorage, persist, type StateStorage } from "zustand/middleware";
+import type { FloodBarrier } from "@/components/Map/FloodBarriers";
+import type { SceneState, SceneUpdate } from "@/lib/scene";
+import {
+  clampWaterLevel,
+  DEFAULT_REGION_ID,
+  findRegion,
+  getRegion,
+  type RegionCamera,
+  type RegionDefinition,
+} from "@/lib/regions";
+import {
+  migrateSettings,
+  parseSettings,
+  SETTINGS_STORAGE_KEY,
+  SETTINGS_VERSION,
+  type PersistedSettings,
+} from "@/lib/settings";
+import type { UnitSystem } from "@/lib/units";
 
 interface AppState {
   // Map state
+  regionId: string;
   waterLevel: number;
   mapCenter: [number, number];
   mapZoom: number;
+  mapPitch: number;
+  mapBearing: number;
+
+  // Scenario state
+  barriers: FloodBarrier[];
 
   // UI state
   selectedPreset: string | null;
   isExporting: boolean;
+  isPlayingTimeline: boolean;
   legendVisible: boolean;
+  isDrawingBarrier: boolean;
+  units: UnitSystem;
 
   // Actions
+  setRegion: (regionId: string) => void;
   setWaterLevel: (level: number) => void;
-  setMapView: (center: [number, number], zoom: number) => void;
+  setMapView: (camera: RegionCamera) => void;
   setSelectedPreset: (preset: string | null) => void;
   setIsExporting: (exporting: boolean) => void;
+  setIsPlayingTimeline: (playing: boolean) => void;
   setLegendVisible: (visible: boolean) => void;
+  addBarrier: (barrier: FloodBarrier) => void;
+  updateBarrier: (id: string, changes: Partial<Omit<FloodBarrier, "id">>) => void;
+  removeBarrier: (id: string) => void;
+  setIsDrawingBarrier: (drawing: boolean) => void;
+  setUnits: (units: UnitSystem) => void;
+  applyScene: (scene: SceneUpdate) => void;
+  applyScenario: (scene: SceneUpdate, barriers: FloodBarrier[]) => void;
 }
 
-export const useStore = create<AppState>()((set) => ({
-  // Initial state
-  waterLevel: 50,
-  mapCenter: [-122.4194, 37.7749], // San Francisco coordinates
-  mapZoom: 12.8,
-  selectedPreset: null,
-  isExporting: false,
-  legendVisible: true,
+const defaultRegion = getRegion(DEFAULT_REGION_ID);
 
-  // Actions
-  setWaterLevel: (level) =>
-    set({ waterLevel: Math.max(25, Math.min(75, level)) }),
-  setMapView: (center, zoom) => set({ mapCenter: center, mapZoom: zoom }),
-  setSelectedPreset: (preset) => set({ selectedPreset: preset }),
-  setIsExporting: (exporting) => set({ isExporting: exporting }),
-  setLegendVisible: (visible) => set({ legendVisible: visible }),
-}));
+// Barriers are drawn in one city's coordinates, so they do not carry over.
+function enterRegion(region: RegionDefinition): Partial<AppState> {
+  return {
+    regionId: region.id,
+    waterLevel: region.waterLevels.default,
+    mapCenter: region.camera.center,
+    mapZoom: region.camera.zoom,
+    mapPitch: region.camera.pitch,
+    mapBearing: region.camera.bearing,
+    barriers: [],
+    selectedPreset: null,
+    isDrawingBarrier: false,
+  };
+}
+
+export function selectScene(state: AppState): SceneState {
+  return {
+    regionId: state.regionId,
+    waterLevel: state.waterLevel,
+    camera: {
+      center: state.mapCenter,
+      zoom: state.mapZoom,
+      pitch: state.mapPitch,
+      bearing: state.mapBearing,
+    },
+    legendVisible: state.legendVisible,
+  };
+}
+
+// Sequence exports and timeline playback drive the camera and level frame by
+// frame. Those frames are not the user's scene, so they stay out of the URL,
+// saved settings and other tabs until the run ends.
+export function isScenePlaying(state: AppState): boolean {
+  return state.isExporting || state.isPlayingTimeline;
+}
+
+// Writes are dropped while a run plays; the set that ends it saves the result.
+function createSettingsStorage(): StateStorage {
+  const storage = localStorage;
+  return {
+    getItem: (name) => storage.getItem(name),
+    setItem: (name, value) => {
+      if (!isScenePlaying(useStore.getState())) storage.setItem(name, value);
+    },
+    removeItem: (name) => storage.removeItem(name),
+  };
+}
+
+// Fields the scene leaves out keep their current values, or the region's
+// defaults when the scene moves to another region.
+function withScene(state: AppState, scene: SceneUpdate): AppState {
+  const region = (scene.regionId && findRegion(scene.regionId)) || getRegion(state.regionId);
+  const current = { ...state, ...(region.id === state.regionId ? {} : enterRegion(region)) };
+  const camera = scene.camera ?? {};
+
+  return {
+    ...current,
+    waterLevel: clampWaterLevel(region, scene.waterLevel ?? current.waterLevel),
+    mapCenter: camera.center ?? current.mapCenter,
+    mapZoom: camera.zoom ?? current.mapZoom,
+    mapPitch: camera.pitch ?? current.mapPitch,
+    mapBearing: camera.bearing ?? current.mapBearing,
+    legendVisible: scene.legendVisible ?? current.legendVisible,
+  };
+}
+
+export const useStore = create<AppState>()(
+  persist(
+    (set) => ({
+      // Initial state
+      regionId: defaultRegion.id,
+      waterLevel: defaultRegion.waterLevels.default,
+      mapCenter: defaultRegion.camera.center,
+      mapZoom: defaultRegion.camera.zoom,
+      mapPitch: defaultRegion.camera.pitch,
+      mapBearing: defaultRegion.camera.bearing,
+      barriers: [],
+      selectedPreset: null,
+      isExporting: false,
+      isPlayingTimeline: false,
+      legendVisible: true,
+      isDrawingBarrier: false,
+      units: "metric",
+
+      // Actions
+      setRegion: (regionId) =>
+        set((state) => {
+          const region = findRegion(regionId);
+          if (!region || region.id === state.regionId) return state;
+
+          return enterRegion(region);
+        }),
+      setWaterLevel: (level) =>
+        set((state) => ({
+          waterLevel: clampWaterLevel(getRegion(state.regionId), level),
+        })),
+      setMapView: (camera) =>
+        set({
+          mapCenter: camera.center,
+          mapZoom: camera.zoom,
+          mapPitch: camera.pitch,
+          mapBearing: camera.bearing,
+        }),
+      setSelectedPreset: (preset) => set({ selectedPreset: preset }),
+      setIsExporting: (exporting) => set({ isExporting: exporting }),
+      setIsPlayingTimeline: (playing) => set({ isPlayingTimeline: playing }),
+      setLegendVisible: (visible) => set({ legendVisible: visible }),
+      addBarrier: (barrier) =>
+        set((state) => ({ barriers: [...state.barriers, barrier] })),
+      updateBarrier: (id, changes) =>
+        set((state) => ({
+          barriers: state.barriers.map((barrier) =>
+            barrier.id === id ? { ...barrier, ...changes } : barrier
+          ),
+        })),
+      removeBarrier: (id) =>
+        set((state) => ({
+          barriers: state.barriers.filter((barrier) => barrier.id !== id),
+        })),
+      setIsDrawingBarrier: (drawing) => set({ isDrawingBarrier: drawing }),
+      setUnits: (units) => set({ units }),
+      applyScene: (scene) => set((state) => withScene(state, scene)),
+      // One update, so the region loads with the scenario's barriers already in place.
+      applyScenario: (scene, barriers) =>
+        set((state) => ({
+          ...withScene(state, scene),
+          barriers,
+          selectedPreset: null,
+          isDrawingBarrier: false,
+        })),
+    }),
+    {
+      name: SETTINGS_STORAGE_KEY,
+      version: SETTINGS_VERSION,
+      storage: createJSONStorage(createSettingsStorage),
+      partialize: (state): PersistedSettings => ({
+        scene: selectScene(state),
+        selectedPreset: state.selectedPreset,
+        units: state.units,
+      }),
+      migrate: migrateSettings,
+      merge: (persisted, current) => {
+        const settings = parseSettings(persisted);
+        return {
+          ...withScene(current, settings.scene),
+          selectedPreset: settings.selectedPreset ?? null,
+          units: settings.units ?? current.units,
+        };
+      },
+      // Rehydrated from an effect so the server render and first client render match.
+      skipHydration: true,
+    }
+  )
+);
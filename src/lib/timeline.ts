@@ -0,0 +1,88 @@
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+import {
+  sortKeyframes,
+  TIMELINE_EASINGS,
+  type TimelineKeyframe,
+} from "@/components/Map/CameraTimeline";
+import { findRegion, isRegionCamera } from "@/lib/regions";
+
+export const TIMELINE_STORAGE_KEY = "flood-map-timeline";
+
+interface TimelineState {
+  keyframes: TimelineKeyframe[];
+
+  addKeyframe: (keyframe: Omit<TimelineKeyframe, "id">) => void;
+  updateKeyframe: (id: string, changes: Partial<Omit<TimelineKeyframe, "id">>) => void;
+  removeKeyframe: (id: string) => void;
+  clearKeyframes: () => void;
+}
+
+function isKeyframe(value: unknown): value is TimelineKeyframe {
+  if (!value || typeof value !== "object") return false;
+
+  const keyframe = value as Record<string, unknown>;
+  return (
+    typeof keyframe.id === "string" &&
+    typeof keyframe.regionId === "string" &&
+    findRegion(keyframe.regionId) !== undefined &&
+    typeof keyframe.time === "number" &&
+    keyframe.time >= 0 &&
+    typeof keyframe.waterLevel === "number" &&
+    Number.isFinite(keyframe.waterLevel) &&
+    TIMELINE_EASINGS.includes(keyframe.easing as TimelineKeyframe["easing"]) &&
+    isRegionCamera(keyframe.camera)
+  );
+}
+
+export function parseKeyframes(value: unknown): TimelineKeyframe[] {
+  return Array.isArray(value) ? sortKeyframes(value.filter(isKeyframe)) : [];
+}
+
+export function getRegionKeyframes(
+  keyframes: TimelineKeyframe[],
+  regionId: string
+): TimelineKeyframe[] {
+  return keyframes.filter((keyframe) => keyframe.regionId === regionId);
+}
+
+// Keyframes are kept sorted by time, which is what sampleTimeline expects. All
+// regions share the store; the editor works on the current region's keyframes.
+export const useTimelineStore = create<TimelineState>()(
+  persist(
+    (set) => ({
+      keyframes: [],
+
+      addKeyframe: (keyframe) =>
+        set((state) => ({
+          keyframes: sortKeyframes([
+            ...state.keyframes,
+            { ...keyframe, id: crypto.randomUUID() },
+          ]),
+        })),
+      updateKeyframe: (id, changes) =>
+        set((state) => ({
+          keyframes: sortKeyframes(
+            state.keyframes.map((keyframe) =>
+              keyframe.id === id ? { ...keyframe, ...changes } : keyframe
+            )
+          ),
+        })),
+      removeKeyframe: (id) =>
+        set((state) => ({
+          keyframes: state.keyframes.filter((keyframe) => keyframe.id !== id),
+        })),
+      clearKeyframes: () => set({ keyframes: [] }),
+    }),
+    {
+      name: TIMELINE_STORAGE_KEY,
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ keyframes: state.keyframes }),
+      skipHydration: true,
+      merge: (persisted, current) => ({
+        ...current,
+        keyframes: parseKeyframes((persisted as { keyframes?: unknown } | undefined)?.keyframes),
+      }),
+    }
+  )
+);
@@ -0,0 +1,26 @@
+export type UnitSystem = "metric" | "imperial";
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+const FEET_PER_METER = 3.28084;
+const SQUARE_MILES_PER_SQUARE_KM = 0.386102;
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+export function getLengthUnit(units: UnitSystem): string {
+  return units === "imperial" ? "ft" : "m";
+}
+
+// Values are always metres internally; only what is shown changes.
+export function formatLength(meters: number, units: UnitSystem, digits: number = 1): string {
+  const value = units === "imperial" ? meters * FEET_PER_METER : meters;
+  return `${value.toFixed(digits)}${getLengthUnit(units)}`;
+}
+
+export function formatArea(squareKm: number, units: UnitSystem, digits: number = 2): string {
+  return units === "imperial"
+    ? `${(squareKm * SQUARE_MILES_PER_SQUARE_KM).toFixed(digits)} mi²`
+    : `${squareKm.toFixed(digits)} km²`;
+}
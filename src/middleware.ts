@@ -3,7 +3,10 @@ import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 const isPublicRoute = createRouteMatcher([
   "/sign-in(.*)",
   "/sign-up(.*)",
-  "/api/public(.*)",
+  // Scoped to the segment, so routes like /shares or /api/publications stay
+  // behind auth.protect().
+  "/api/public/(.*)",
+  "/share/(.*)",
 ]);
 
 export default clerkMiddleware(async (auth, req) => {